@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Users, Check, FileJson, Image, Pencil, Trash2, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { characterService, CharacterCard } from '@/lib/characters';
+import { useActiveCharacter, useCharacters } from '@/hooks/useCharacters';
+import { useAppStore } from '@/store/appStore';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+
+const download = ({ blob, filename }: { blob: Blob; filename: string }) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CharacterAvatar: React.FC<{ card: CharacterCard }> = ({ card }) => {
+  if (card.avatar) {
+    return <img src={card.avatar} alt="" className="h-10 w-10 shrink-0 rounded-xl object-cover" />;
+  }
+  return (
+    <div
+      className="h-10 w-10 shrink-0 rounded-xl flex items-center justify-center font-black"
+      style={{ background: card.appearance.colors.hair, color: card.appearance.colors.outfit }}
+    >
+      {[...card.name][0]?.toUpperCase()}
+    </div>
+  );
+};
+
+const CharacterRow: React.FC<{ card: CharacterCard; isActive: boolean; onActivate: () => void }> = ({ card, isActive, onActivate }) => {
+  const exportPng = async () => {
+    try {
+      download(await characterService.exportPng(card));
+    } catch (error) {
+      toast.error(`Could not export ${card.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className={cn('group flex items-center gap-3 p-2 rounded-xl hover:bg-white/5', isActive && 'bg-miku-cyan/10')}>
+      <CharacterAvatar card={card} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-bold truncate">{card.name}</p>
+        <p className="text-[9px] uppercase tracking-widest opacity-40 truncate">
+          {isActive ? 'Active' : card.tags.join(' · ') || (card.builtIn ? 'Bundled' : 'Imported')}
+        </p>
+      </div>
+      {!isActive && (
+        <Button variant="ghost" size="icon" className="h-8 w-8" title={`Chat with ${card.name}`} onClick={onActivate}>
+          <Check size={14} />
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100" title="Edit" asChild>
+        <Link to={`/characters/${encodeURIComponent(card.id)}/edit`}>
+          <Pencil size={14} />
+        </Link>
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 opacity-0 group-hover:opacity-100"
+        title="Export as Character Card JSON"
+        onClick={() => download(characterService.exportJson(card))}
+      >
+        <FileJson size={14} />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100" title="Export as PNG card" onClick={exportPng}>
+        <Image size={14} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 opacity-0 group-hover:opacity-100 text-red-400"
+        title={card.builtIn ? 'Restore the bundled version' : 'Delete'}
+        onClick={() => characterService.remove(card.id)}
+      >
+        {card.builtIn ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+      </Button>
+    </div>
+  );
+};
+
+const CharacterPanel: React.FC = () => {
+  const characters = useCharacters();
+  const active = useActiveCharacter();
+  const newConversation = useAppStore(state => state.newConversation);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A different companion starts a fresh chat with their own greeting
+  const activate = (id: string) => {
+    characterService.setActive(id);
+    newConversation().catch(error => console.warn('[Characters] Could not start a new chat:', error));
+  };
+
+  const importFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      try {
+        const card = await characterService.importFile(file);
+        toast.success(`Imported ${card.name}`);
+      } catch (error) {
+        toast.error(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors" title="Characters">
+          <Users size={18} className="text-miku-cyan" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="bg-black/80 backdrop-blur-xl border-miku-cyan/20 text-white overflow-y-auto custom-scrollbar">
+        <SheetHeader>
+          <SheetTitle className="text-miku-cyan">Characters</SheetTitle>
+          <SheetDescription className="text-white/50">
+            Pick who you're chatting with. Cards import and export in the Character Card V2 format, as JSON or PNG.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-1">
+          {characters.map(card => (
+            <CharacterRow key={card.id} card={card} isActive={card.id === active.id} onActivate={() => activate(card.id)} />
+          ))}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.png,application/json,image/png"
+          multiple
+          className="hidden"
+          onChange={(e) => importFiles(e.target.files)}
+        />
+        <Button variant="outline" className="mt-6 w-full border-white/10 bg-white/5" onClick={() => fileInputRef.current?.click()}>
+          <Upload size={14} className="mr-2" />
+          Import card
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CharacterPanel;
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, Send, StopCircle } from 'lucide-react';
+import { EmotionType } from '@/store/appStore';
+import { CharacterCard, pickGreeting } from '@/lib/characters';
+import { ChatMessage as Message, conversationEngine, createMessage } from '@/lib/conversation';
+import { IntentEngine } from '@/lib/intentEngine';
+import { memoryService } from '@/lib/memoryService';
+import ChatMessage from './ChatMessage';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+interface CharacterTestChatProps {
+  // Read on every send, so the chat always uses the latest draft
+  getCharacter: () => CharacterCard;
+  onEmotion?: (emotion: EmotionType) => void;
+}
+
+const openingMessages = (character: CharacterCard): Message[] => {
+  const greeting = pickGreeting(character, memoryService.userName);
+  return greeting ? [createMessage('assistant', greeting, 'happy')] : [];
+};
+
+/**
+ * Throwaway chat with a draft persona: nothing is stored, remembered or spoken
+ */
+const CharacterTestChat: React.FC<CharacterTestChatProps> = ({ getCharacter, onEmotion }) => {
+  const [messages, setMessages] = useState<Message[]>(() => openingMessages(getCharacter()));
+  const [input, setInput] = useState('');
+  const [streamingContent, setStreamingContent] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Its own follow-up context and slots, so testing leaves the main chat alone
+  const [dialogue] = useState(() => new IntentEngine());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, streamingContent]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const restart = () => {
+    abortControllerRef.current?.abort();
+    dialogue.reset();
+    setStreamingContent('');
+    setMessages(openingMessages(getCharacter()));
+  };
+
+  const send = () => {
+    const text = input.trim();
+    if (!text || isStreaming) return;
+
+    const history = [...messages, createMessage('user', text)];
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setMessages(history);
+    setInput('');
+    setIsStreaming(true);
+
+    const finish = () => {
+      setIsStreaming(false);
+      setStreamingContent('');
+    };
+
+    conversationEngine.stream(
+      { messages: history, character: getCharacter(), dialogue, signal: controller.signal },
+      {
+        onToken: (token) => setStreamingContent(content => content + token),
+        onComplete: (reply) => {
+          finish();
+          setMessages(current => [...current, reply]);
+          if (reply.emotion) onEmotion?.(reply.emotion);
+        },
+        onError: (error) => {
+          finish();
+          if (controller.signal.aborted) return;
+          setMessages(current => [...current, createMessage('system', `Error: ${error.message}`)]);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="px-4 py-2 border-b border-white/5 flex items-center justify-between bg-white/5 shrink-0">
+        <span className="text-[10px] font-black tracking-[0.2em] uppercase text-white/40">Test chat · draft, not saved</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Start over" onClick={restart}>
+          <RotateCcw size={14} />
+        </Button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-4 p-4 custom-scrollbar">
+        {messages.map(message => message.role === 'system' ? (
+          <p key={message.id} className="text-xs text-red-400/80 text-center">{message.content}</p>
+        ) : (
+          <ChatMessage key={message.id} message={message} />
+        ))}
+        {isStreaming && streamingContent && (
+          <ChatMessage message={{ id: 'streaming', role: 'assistant', content: streamingContent, timestamp: new Date() }} isTyping />
+        )}
+      </div>
+
+      <div className="p-3 border-t border-white/5 flex gap-2 shrink-0">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && send()}
+          placeholder="Say something to the draft..."
+          className="flex-1 bg-white/5 border border-white/10 rounded-full h-10 text-sm text-white placeholder:text-white/20 px-5"
+          disabled={isStreaming}
+        />
+        {isStreaming ? (
+          <Button variant="ghost" size="icon" className="rounded-full h-10 w-10 text-red-400" onClick={() => abortControllerRef.current?.abort()}>
+            <StopCircle size={18} />
+          </Button>
+        ) : (
+          <Button onClick={send} disabled={!input.trim()} className="bg-miku-cyan hover:bg-miku-cyan/80 text-black rounded-2xl h-10 px-4">
+            <Send size={16} />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterTestChat;
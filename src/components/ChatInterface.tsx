@@ -1,23 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useAppStore, selectMessages, selectSignal, selectEmotion } from '@/store/appStore';
-import { generateAIResponse } from '@/lib/aiChat';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useAppStore, selectMessages, selectSignal, selectEmotion, EmotionType } from '@/store/appStore';
+import { conversationEngine } from '@/lib/conversation';
+import { SentenceSegmenter } from '@/lib/sentenceSegmenter';
 import { ttsService } from '@/lib/ttsService';
 import { sttService } from '@/lib/sttService';
+import { audioAnalyzer } from '@/lib/audioAnalyzer';
+import { lipSync } from '@/lib/lipSync';
+import { animationDirector } from '@/lib/animation';
+import { moodService } from '@/lib/moodService';
+import { parsePerformance, PerformanceCue, taggedEmotion } from '@/lib/performanceTags';
+import { useActiveCharacter } from '@/hooks/useCharacters';
 import ChatMessage from './ChatMessage';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Mic, Send, Volume2, VolumeX, StopCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
+// Text without a clear emotion takes on the mood
+const orMood = (emotion?: EmotionType): EmotionType =>
+  emotion && emotion !== 'neutral' ? emotion : moodService.emotion;
+
+// Emotion and gesture tags in a reply, acted out as the speech reaches them
+const performCue = (cue: PerformanceCue) => {
+  if (cue.type === 'emotion') useAppStore.getState().setEmotion(cue.emotion);
+  else if (cue.type === 'gesture') animationDirector.cue(cue.name);
+};
+
 const ChatInterface: React.FC = () => {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const prependAnchorRef = useRef<number | null>(null);
   
   const messages = useAppStore(selectMessages);
   const signal = useAppStore(selectSignal);
   const emotion = useAppStore(selectEmotion);
   const voiceEnabled = useAppStore(state => state.voiceEnabled);
   const micEnabled = useAppStore(state => state.micEnabled);
+  const isStreaming = useAppStore(state => state.isStreaming);
+  const streamingContent = useAppStore(state => state.streamingContent);
+  const hasOlderMessages = useAppStore(state => state.hasOlderMessages);
+  const isLoadingHistory = useAppStore(state => state.isLoadingHistory);
+  const character = useActiveCharacter();
   
   const addMessage = useAppStore(state => state.addMessage);
   const setSignal = useAppStore(state => state.setSignal);
@@ -27,37 +51,143 @@ const ChatInterface: React.FC = () => {
   const setMicEnabled = useAppStore(state => state.setMicEnabled);
   const setIsSpeaking = useAppStore(state => state.setIsSpeaking);
   const setCurrentAudioLevel = useAppStore(state => state.setCurrentAudioLevel);
+  const setStreamingContent = useAppStore(state => state.setStreamingContent);
+  const setIsStreaming = useAppStore(state => state.setIsStreaming);
+  const setLastError = useAppStore(state => state.setLastError);
+  const addToAudioQueue = useAppStore(state => state.addToAudioQueue);
+  const shiftAudioQueue = useAppStore(state => state.shiftAudioQueue);
+  const clearAudioQueue = useAppStore(state => state.clearAudioQueue);
+  const loadOlderMessages = useAppStore(state => state.loadOlderMessages);
 
-  // Auto scroll
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  // Auto scroll when new content arrives at the bottom
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, signal]);
+  }, [lastMessageId, signal, streamingContent]);
+
+  // Keep the viewport steady when older history is prepended above it
+  useLayoutEffect(() => {
+    if (!scrollRef.current || prependAnchorRef.current === null) return;
+    scrollRef.current.scrollTop = scrollRef.current.scrollHeight - prependAnchorRef.current;
+    prependAnchorRef.current = null;
+  }, [messages]);
+
+  const handleLoadOlder = async () => {
+    if (!scrollRef.current || !hasOlderMessages || isLoadingHistory) return;
+    prependAnchorRef.current = scrollRef.current.scrollHeight - scrollRef.current.scrollTop;
+    await loadOlderMessages();
+  };
+
+  const handleScroll = () => {
+    if (scrollRef.current && scrollRef.current.scrollTop < 40) handleLoadOlder();
+  };
+
+  // Abort any in-flight reply when the chat unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Audio can only be analysed once a user gesture has unlocked the AudioContext
+  const unlockAudio = () => {
+    audioAnalyzer.initialize()
+      .then(ready => ready && audioAnalyzer.resume())
+      .catch(error => console.warn('[AudioAnalyzer] Could not start audio:', error));
+  };
+
+  // Stop speech and drop anything still waiting to be spoken
+  const stopSpeech = () => {
+    clearAudioQueue();
+    ttsService.stop();
+    setIsSpeaking(false);
+    setCurrentAudioLevel(0);
+  };
 
   const handleSend = async (text: string = input) => {
     const messageText = text.trim();
-    if (!messageText || signal === 'THINKING') return;
+    if (!messageText || signal === 'THINKING' || isStreaming) return;
     
     setInput('');
-    ttsService.stop();
+    stopSpeech();
+    unlockAudio();
     addMessage({ role: 'user', content: messageText });
     
     if (setSignal('THINKING')) {
-      try {
-        const response = await generateAIResponse(useAppStore.getState().messages);
-        addMessage({ role: 'assistant', content: response.content, emotion: response.emotion });
-        setEmotion(response.emotion || 'neutral');
-        
-        if (voiceEnabled) {
-          setSignal('SPEAKING');
-          ttsService.speakNow(response.content, response.emotion);
-        } else {
-          forceSignal('IDLE');
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const segmenter = new SentenceSegmenter();
+      let streamed = '';
+
+      setStreamingContent('');
+      setIsStreaming(true);
+
+      const finishStream = () => {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        setIsStreaming(false);
+        setStreamingContent('');
+      };
+
+      // An emotion tag carries on into the following sentences
+      let tagged: EmotionType | undefined;
+
+      // Speak each sentence as soon as it is complete
+      const speakSentences = (sentences: string[], sentenceEmotion: EmotionType) => {
+        if (!useAppStore.getState().voiceEnabled) return;
+        for (const sentence of sentences) {
+          const spoken = ttsService.enqueue(sentence, tagged ?? orMood(sentenceEmotion));
+          tagged = taggedEmotion(sentence) ?? tagged;
+          if (!spoken) continue;
+          addToAudioQueue(sentence);
+          if (useAppStore.getState().signal === 'THINKING') setSignal('SPEAKING');
         }
-      } catch (error) {
-        forceSignal('ERROR');
-      }
+      };
+
+      await conversationEngine.stream(
+        {
+          messages: useAppStore.getState().messages,
+          conversationId: useAppStore.getState().activeConversationId ?? undefined,
+          signal: controller.signal,
+        },
+        {
+          onToken: (token) => {
+            streamed += token;
+            setStreamingContent(streamed);
+            speakSentences(segmenter.push(token), conversationEngine.detectEmotion(streamed));
+          },
+          onComplete: (reply) => {
+            finishStream();
+            addMessage({ role: 'assistant', content: reply.content, emotion: reply.emotion, metadata: reply.metadata });
+            speakSentences(segmenter.flush(), orMood(reply.emotion));
+            if (useAppStore.getState().voiceEnabled) {
+              // Tagged emotions change as the speech reaches them
+              if (!taggedEmotion(reply.content)) setEmotion(orMood(reply.emotion));
+            } else {
+              setEmotion(orMood(reply.emotion));
+              parsePerformance(reply.content).cues.forEach(({ cue }) => { if (cue.type === 'gesture') performCue(cue); });
+            }
+
+            // Speech may already have caught up with generation
+            const { audioQueue } = useAppStore.getState();
+            if (audioQueue.length === 0 && !ttsService.isSpeaking) {
+              setIsSpeaking(false);
+              forceSignal('IDLE');
+            }
+          },
+          onError: (error) => {
+            finishStream();
+            segmenter.reset();
+            if (controller.signal.aborted) {
+              // Keep whatever was already shown so the transcript matches the screen
+              if (streamed.trim()) addMessage({ role: 'assistant', content: streamed.trim(), metadata: { aborted: true } });
+              forceSignal('IDLE');
+            } else {
+              stopSpeech();
+              setLastError(error.message);
+              forceSignal('ERROR');
+            }
+          },
+        }
+      );
     }
   };
 
@@ -65,7 +195,8 @@ const ChatInterface: React.FC = () => {
     if (micEnabled) {
       sttService.stop();
     } else {
-      ttsService.stop();
+      stopSpeech();
+      unlockAudio();
       const started = await sttService.start();
       if (started) {
         setMicEnabled(true);
@@ -90,29 +221,35 @@ const ChatInterface: React.FC = () => {
     }
   };
 
+  // The mouth follows real audio when the engine plays any, else the words as they are reached
+  useEffect(() => lipSync.subscribe(setCurrentAudioLevel), [setCurrentAudioLevel]);
+
   useEffect(() => {
     ttsService.setCallbacks({
-      onStart: () => {
+      onStart: (speech) => {
         setIsSpeaking(true);
-        const interval = setInterval(() => {
-          if (ttsService.isSpeaking) {
-            setCurrentAudioLevel(0.3 + Math.random() * 0.6);
-          } else {
-            setCurrentAudioLevel(0);
-            clearInterval(interval);
-          }
-        }, 50);
+        lipSync.begin(speech);
       },
+      onBoundary: (charIndex) => lipSync.boundary(charIndex),
+      // Fires for every request, even one that failed or was blocked before it started
       onEnd: () => {
+        lipSync.end();
+        shiftAudioQueue();
+        // Only settle once the service has nothing left to say and nothing is still generating
+        const state = useAppStore.getState();
+        if (state.isStreaming || ttsService.hasQueued) return;
+        clearAudioQueue();
         setIsSpeaking(false);
         setCurrentAudioLevel(0);
-        if (useAppStore.getState().signal === 'SPEAKING') forceSignal('IDLE');
-      }
+        if (state.signal === 'SPEAKING') forceSignal('IDLE');
+      },
+      onCue: (cue) => performCue(cue),
     });
-  }, [setIsSpeaking, setSignal, forceSignal, setCurrentAudioLevel]);
+  }, [setIsSpeaking, setSignal, forceSignal, setCurrentAudioLevel, shiftAudioQueue, clearAudioQueue]);
 
   const handleStop = () => {
-    ttsService.stop();
+    abortControllerRef.current?.abort();
+    stopSpeech();
     sttService.stop();
     forceSignal('IDLE');
   };
@@ -122,10 +259,21 @@ const ChatInterface: React.FC = () => {
       {/* Messages Area */}
       <div 
         ref={scrollRef}
+        onScroll={handleScroll}
         className="flex-1 overflow-y-auto space-y-4 p-4 custom-scrollbar"
       >
+        {hasOlderMessages && (
+          <button
+            onClick={handleLoadOlder}
+            disabled={isLoadingHistory}
+            className="block mx-auto text-[9px] font-black tracking-[0.2em] uppercase text-miku-cyan/50 hover:text-miku-cyan disabled:opacity-30"
+          >
+            {isLoadingHistory ? 'Recalling...' : 'Load earlier messages'}
+          </button>
+        )}
+
         <AnimatePresence initial={false}>
-          {messages.map((msg) => (
+          {messages.filter(msg => msg.role !== 'system').map((msg) => (
             <motion.div
               key={msg.id}
               initial={{ opacity: 0, y: 10, scale: 0.95 }}
@@ -137,7 +285,14 @@ const ChatInterface: React.FC = () => {
           ))}
         </AnimatePresence>
         
-        {signal === 'THINKING' && (
+        {isStreaming && streamingContent && (
+          <ChatMessage
+            message={{ id: 'streaming', role: 'assistant', content: streamingContent, timestamp: new Date() }}
+            isTyping
+          />
+        )}
+
+        {signal === 'THINKING' && !streamingContent && (
           <motion.div 
             initial={{ opacity: 0 }} 
             animate={{ opacity: 1 }}
@@ -170,9 +325,9 @@ const ChatInterface: React.FC = () => {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-              placeholder={signal === 'LISTENING' ? "Listening..." : "Type your message to Miku..."}
+              placeholder={signal === 'LISTENING' ? "Listening..." : `Type your message to ${character.name}...`}
               className="flex-1 bg-white/5 border border-white/10 rounded-full focus:ring-2 focus:ring-miku-cyan/30 h-12 text-sm text-white placeholder:text-white/20 px-6 shadow-inner"
-              disabled={signal === 'THINKING' || signal === 'LISTENING'}
+              disabled={signal === 'THINKING' || signal === 'LISTENING' || isStreaming}
             />
 
             {(signal === 'THINKING' || signal === 'SPEAKING' || signal === 'LISTENING') ? (
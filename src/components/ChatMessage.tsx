@@ -1,7 +1,8 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { Message } from '@/lib/aiChat';
+import { ChatMessage as Message } from '@/lib/conversation';
+import { stripPerformance } from '@/lib/performanceTags';
 
 interface ChatMessageProps {
   message: Message;
@@ -63,7 +64,10 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isTyping = false })
         )}
         
         <p className="text-sm leading-relaxed text-white/90 selection:bg-miku-cyan/30">
-          {message.content}
+          {isUser ? message.content : stripPerformance(message.content)}
+          {isTyping && (
+            <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-miku-cyan/80 animate-pulse" />
+          )}
         </p>
 
         <span className={cn(
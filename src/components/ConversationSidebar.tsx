@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { MessageSquarePlus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAppStore, selectConversations, selectActiveConversationId } from '@/store/appStore';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from './ui/sidebar';
+import { Button } from './ui/button';
+
+const ConversationSidebar: React.FC = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const conversations = useAppStore(selectConversations);
+  const activeConversationId = useAppStore(selectActiveConversationId);
+  const isStreaming = useAppStore(state => state.isStreaming);
+
+  const newConversation = useAppStore(state => state.newConversation);
+  const switchConversation = useAppStore(state => state.switchConversation);
+  const renameConversation = useAppStore(state => state.renameConversation);
+  const deleteConversation = useAppStore(state => state.deleteConversation);
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setDraftTitle(title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    await renameConversation(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!window.confirm(`Delete "${title}"? This can't be undone.`)) return;
+    await deleteConversation(id);
+  };
+
+  return (
+    <Sidebar variant="floating" collapsible="offcanvas" className="z-[60]">
+      <SidebarHeader className="pt-4">
+        <Button
+          variant="ghost"
+          onClick={() => newConversation()}
+          disabled={isStreaming}
+          className="justify-start gap-2 rounded-xl text-miku-cyan hover:bg-miku-cyan/10"
+        >
+          <MessageSquarePlus size={16} />
+          New chat
+        </Button>
+      </SidebarHeader>
+
+      <SidebarContent className="custom-scrollbar">
+        <SidebarGroup>
+          <SidebarGroupLabel className="text-[9px] font-black tracking-[0.3em] uppercase text-white/30">
+            Memory Archive
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {conversations.map((conversation) => (
+                <SidebarMenuItem key={conversation.id}>
+                  {editingId === conversation.id ? (
+                    <div className="flex items-center gap-1">
+                      <SidebarInput
+                        autoFocus
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="h-8"
+                      />
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={commitRename}>
+                        <Check size={14} />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => setEditingId(null)}>
+                        <X size={14} />
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        size="lg"
+                        isActive={conversation.id === activeConversationId}
+                        disabled={isStreaming}
+                        onClick={() => switchConversation(conversation.id)}
+                        onDoubleClick={() => startRename(conversation.id, conversation.title)}
+                        className="pr-14"
+                      >
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate">{conversation.title}</span>
+                          <span className="text-[10px] opacity-40">
+                            {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+                          </span>
+                        </div>
+                      </SidebarMenuButton>
+                      <SidebarMenuAction
+                        showOnHover
+                        className="right-7"
+                        onClick={() => startRename(conversation.id, conversation.title)}
+                      >
+                        <Pencil />
+                      </SidebarMenuAction>
+                      <SidebarMenuAction
+                        showOnHover
+                        disabled={isStreaming}
+                        onClick={() => handleDelete(conversation.id, conversation.title)}
+                      >
+                        <Trash2 />
+                      </SidebarMenuAction>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default ConversationSidebar;
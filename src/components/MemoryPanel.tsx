@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Brain, Pencil, Trash2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { memoryService, MemoryFact, MemoryKind } from '@/lib/memoryService';
+import { useMemories } from '@/hooks/useMemories';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+const SECTIONS: { kind: MemoryKind; title: string }[] = [
+  { kind: 'name', title: 'Name' },
+  { kind: 'preference', title: 'Likes' },
+  { kind: 'dislike', title: 'Dislikes' },
+  { kind: 'date', title: 'Important Dates' },
+];
+
+const MemoryRow: React.FC<{ fact: MemoryFact }> = ({ fact }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftValue, setDraftValue] = useState(fact.value);
+  const [draftLabel, setDraftLabel] = useState(fact.label ?? '');
+
+  const save = async () => {
+    if (!draftValue.trim()) return;
+    await memoryService.update(fact.id, {
+      value: draftValue.trim(),
+      label: fact.kind === 'date' ? draftLabel.trim() || undefined : fact.label,
+      confidence: 1,
+    });
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-2 p-2 rounded-xl bg-white/5">
+        {fact.kind === 'date' && (
+          <Input value={draftLabel} onChange={(e) => setDraftLabel(e.target.value)} placeholder="What" className="h-8 w-24 bg-black/40" />
+        )}
+        <Input
+          autoFocus
+          value={draftValue}
+          onChange={(e) => setDraftValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="h-8 flex-1 bg-black/40"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={save}>
+          <Check size={14} />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setIsEditing(false)}>
+          <X size={14} />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-3 p-2 rounded-xl hover:bg-white/5">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">
+          {fact.label && <span className="text-miku-cyan/70 capitalize">{fact.label}: </span>}
+          {fact.value}
+        </p>
+        <div className="flex items-center gap-2 mt-1">
+          <div className="h-1 w-16 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full bg-miku-cyan" style={{ width: `${Math.round(fact.confidence * 100)}%` }} />
+          </div>
+          <span className="text-[9px] uppercase tracking-widest opacity-40">
+            {Math.round(fact.confidence * 100)}% · {formatDistanceToNow(fact.updatedAt, { addSuffix: true })}
+          </span>
+        </div>
+      </div>
+      <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100" onClick={() => setIsEditing(true)}>
+        <Pencil size={14} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 opacity-0 group-hover:opacity-100 text-red-400"
+        onClick={() => memoryService.remove(fact.id)}
+      >
+        <Trash2 size={14} />
+      </Button>
+    </div>
+  );
+};
+
+const MemoryPanel: React.FC = () => {
+  const memories = useMemories();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors" title="What Miku remembers">
+          <Brain size={18} className="text-miku-pink" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="bg-black/80 backdrop-blur-xl border-miku-cyan/20 text-white overflow-y-auto custom-scrollbar">
+        <SheetHeader>
+          <SheetTitle className="text-miku-cyan">Miku's Memories</SheetTitle>
+          <SheetDescription className="text-white/50">
+            Things Miku learned about you. Edit anything she got wrong, or make her forget it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {memories.length === 0 && (
+            <p className="text-sm text-white/40 text-center py-8">
+              Nothing yet~ Tell Miku your name or what you like! ✨
+            </p>
+          )}
+          {SECTIONS.map(({ kind, title }) => {
+            const facts = memories.filter(f => f.kind === kind).sort((a, b) => b.confidence - a.confidence);
+            if (facts.length === 0) return null;
+            return (
+              <section key={kind}>
+                <h3 className="text-[9px] font-black tracking-[0.3em] uppercase text-white/30 mb-2">{title}</h3>
+                <div className="space-y-1">
+                  {facts.map(fact => <MemoryRow key={fact.id} fact={fact} />)}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MemoryPanel;
@@ -1,13 +1,22 @@
-import React, { useRef, useMemo, useEffect, useCallback } from 'react';
+import React, { useRef, useMemo, useEffect, useCallback, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Float, Stars, Environment, PerspectiveCamera, useProgress, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { useAppStore, selectAudioLevel, selectEmotion, selectIsSpeaking } from '@/store/appStore';
+import { toast } from 'sonner';
+import { useAppStore, selectEmotion, selectEmotionSetAt, selectIsSpeaking, selectSignal, AppSignal, EmotionType } from '@/store/appStore';
 import { WebGLErrorBoundary } from '@/components/ErrorBoundary';
-import { getMouthOpenness } from '@/lib/audioAnalyzer';
+import { CLOSED_MOUTH, Viseme, VISEMES } from '@/lib/audioAnalyzer';
+import { lipSync } from '@/lib/lipSync';
+import { animationDirector } from '@/lib/animation';
+import { CharacterAppearance } from '@/lib/characters';
+import { useActiveCharacter } from '@/hooks/useCharacters';
+import { useIdleMotion } from '@/hooks/useIdleMotion';
+import VRMCharacter from './VRMCharacter';
 
-const LoadingIndicator: React.FC = () => {
-  const { progress } = useProgress();
+// Progress of the asset loaders unless a loader reports its own
+const LoadingIndicator: React.FC<{ progress?: number }> = ({ progress: ownProgress }) => {
+  const { progress: loaderProgress } = useProgress();
+  const progress = ownProgress ?? loaderProgress;
   return (
     <Html center>
       <div className="text-center p-6 bg-black/60 backdrop-blur-xl rounded-3xl border border-miku-cyan/40 shadow-[0_0_30px_rgba(0,212,212,0.3)]">
@@ -18,28 +27,45 @@ const LoadingIndicator: React.FC = () => {
   );
 };
 
-const AnimeCharacter: React.FC<{ isSpeaking: boolean; emotion: string; audioLevel: number }> = ({ isSpeaking, emotion, audioLevel }) => {
+// How far each viseme opens the mouth and how wide it stretches it
+const MOUTH_SHAPES: Record<Viseme, { open: number; width: number }> = {
+  a: { open: 1, width: 1 },
+  i: { open: 0.3, width: 1.35 },
+  u: { open: 0.4, width: 0.6 },
+  e: { open: 0.6, width: 1.2 },
+  o: { open: 0.8, width: 0.75 },
+  closed: { open: 0.05, width: 1.1 },
+};
+
+// How far the built-in character's eyes move for a radian of gaze
+const EYE_TRAVEL = 0.08;
+
+const AnimeCharacter: React.FC<{
+  isSpeaking: boolean;
+  signal: AppSignal;
+  emotion: EmotionType;
+  appearance: CharacterAppearance;
+}> = ({ isSpeaking, signal, emotion, appearance }) => {
   const groupRef = useRef<THREE.Group>(null);
   const headRef = useRef<THREE.Mesh>(null);
+  const eyesRef = useRef<THREE.Group>(null);
   const eyeLeftRef = useRef<THREE.Mesh>(null);
   const eyeRightRef = useRef<THREE.Mesh>(null);
   const mouthRef = useRef<THREE.Mesh>(null);
   const hairRefs = useRef<THREE.Mesh[]>([]);
-  
-  const blinkTimer = useRef(0);
-  const blinkState = useRef(false);
-  const breathePhase = useRef(0);
-  const targetMouthOpen = useRef(0);
+  const idle = useIdleMotion(signal, emotion);
+
   const currentMouthOpen = useRef(0);
+  const currentMouthWidth = useRef(1.1);
 
   const colors = useMemo(() => ({
-    hair: new THREE.Color('#00d4d4'),
-    skin: new THREE.Color('#ffe4d0'),
-    eyes: new THREE.Color('#00d4d4'),
-    mouth: new THREE.Color('#ff6b9d'),
-    outfit: new THREE.Color('#1a1a2e'),
-    outfitAccent: new THREE.Color('#00d4d4'),
-  }), []);
+    hair: new THREE.Color(appearance.colors.hair),
+    skin: new THREE.Color(appearance.colors.skin),
+    eyes: new THREE.Color(appearance.colors.eyes),
+    mouth: new THREE.Color(appearance.colors.mouth),
+    outfit: new THREE.Color(appearance.colors.outfit),
+    outfitAccent: new THREE.Color(appearance.colors.outfitAccent),
+  }), [appearance.colors]);
 
   const getEmotionColor = useCallback(() => {
     switch (emotion) {
@@ -47,45 +73,47 @@ const AnimeCharacter: React.FC<{ isSpeaking: boolean; emotion: string; audioLeve
       case 'shy': return '#ffb8cc';
       case 'annoyed': return '#ff9999';
       case 'sad': return '#e0e0ff';
-      default: return '#ffe4d0';
+      default: return appearance.colors.skin;
     }
-  }, [emotion]);
+  }, [emotion, appearance.colors.skin]);
 
   useFrame((state, delta) => {
     if (!groupRef.current || !headRef.current) return;
 
-    // Breathing - Fluid & Organic
-    breathePhase.current += delta * 1.5;
-    groupRef.current.position.y = Math.sin(breathePhase.current) * 0.03;
-    groupRef.current.scale.x = 1 + Math.sin(breathePhase.current * 0.8) * 0.008;
+    const pose = idle.update(delta);
+
+    // Breathing and weight shifts move the whole body
+    groupRef.current.position.set(pose.hips.offset, pose.breath * 0.02, 0);
+    groupRef.current.rotation.set(pose.spine.x * 0.5, 0, pose.hips.roll + pose.spine.z);
+    groupRef.current.scale.x = 1 + pose.breath * 0.006;
 
     // Head movement - Emotional feedback
-    const headTilt = (emotion === 'funny' || emotion === 'curious') ? Math.sin(state.clock.elapsedTime * 2) * 0.12 + 0.2 : 0;
     const headNod = isSpeaking ? Math.sin(state.clock.elapsedTime * 12) * 0.02 : 0;
-    
-    headRef.current.rotation.x = Math.sin(state.clock.elapsedTime * 0.6) * 0.04 + headNod;
-    headRef.current.rotation.z = THREE.MathUtils.lerp(headRef.current.rotation.z, Math.sin(state.clock.elapsedTime * 0.4) * 0.03 + headTilt, 0.15);
-
-    // Blinking logic
-    blinkTimer.current += delta;
-    if (blinkTimer.current > 4 + Math.random() * 3 && !blinkState.current) {
-      blinkState.current = true;
-      blinkTimer.current = 0;
+    headRef.current.rotation.set(pose.head.x + headNod, pose.head.y, pose.head.z);
+
+    // Saccades and glances slide the eyes across the face
+    if (eyesRef.current) {
+      eyesRef.current.position.set(pose.eyes.y * EYE_TRAVEL, 0.25 - pose.eyes.x * EYE_TRAVEL, 0.35);
     }
-    if (blinkState.current && blinkTimer.current > 0.15) {
-      blinkState.current = false;
+    const eyeScaleY = Math.max(0.02, (1 - pose.blink) * (emotion === 'annoyed' ? 0.65 : 1));
+    if (eyeLeftRef.current) eyeLeftRef.current.scale.y = eyeScaleY;
+    if (eyeRightRef.current) eyeRightRef.current.scale.y = eyeScaleY;
+
+    // Lip-sync: blend the mouth shapes by viseme weight
+    const visemes = isSpeaking ? lipSync.visemes : CLOSED_MOUTH;
+    let open = 0;
+    let width = 0;
+    let total = 0;
+    for (const viseme of VISEMES) {
+      open += visemes[viseme] * MOUTH_SHAPES[viseme].open;
+      width += visemes[viseme] * MOUTH_SHAPES[viseme].width;
+      total += visemes[viseme];
     }
-    
-    const eyeScaleY = blinkState.current ? 0.02 : (emotion === 'annoyed' ? 0.65 : 1);
-    if (eyeLeftRef.current) eyeLeftRef.current.scale.y = THREE.MathUtils.lerp(eyeLeftRef.current.scale.y, eyeScaleY, 0.4);
-    if (eyeRightRef.current) eyeRightRef.current.scale.y = THREE.MathUtils.lerp(eyeRightRef.current.scale.y, eyeScaleY, 0.4);
-
-    // Lip-sync refinement
-    targetMouthOpen.current = isSpeaking ? getMouthOpenness(audioLevel) : 0.05;
-    currentMouthOpen.current = THREE.MathUtils.lerp(currentMouthOpen.current, targetMouthOpen.current, 0.4);
+    currentMouthOpen.current = THREE.MathUtils.lerp(currentMouthOpen.current, total > 0 ? open / total : MOUTH_SHAPES.closed.open, 0.4);
+    currentMouthWidth.current = THREE.MathUtils.lerp(currentMouthWidth.current, total > 0 ? width / total : MOUTH_SHAPES.closed.width, 0.4);
     if (mouthRef.current) {
         mouthRef.current.scale.y = 0.15 + currentMouthOpen.current * 2.2;
-        mouthRef.current.scale.x = 1.1 - currentMouthOpen.current * 0.4;
+        mouthRef.current.scale.x = currentMouthWidth.current;
     }
 
     // Hair physics - High quality motion
@@ -127,7 +155,7 @@ const AnimeCharacter: React.FC<{ isSpeaking: boolean; emotion: string; audioLeve
         />
       </mesh>
 
-      <group position={[0, 0.25, 0.35]}>
+      <group ref={eyesRef} position={[0, 0.25, 0.35]}>
         <mesh ref={eyeLeftRef} position={[-0.12, 0, 0]}>
           <sphereGeometry args={[0.08, 32, 32]} />
           <meshStandardMaterial color={colors.eyes} emissive={colors.eyes} emissiveIntensity={0.6} />
@@ -180,13 +208,38 @@ const AnimeCharacter: React.FC<{ isSpeaking: boolean; emotion: string; audioLeve
   );
 };
 
-const Scene: React.FC = () => {
+const Scene: React.FC<{ appearance: CharacterAppearance; emotion?: EmotionType }> = ({ appearance, emotion: emotionOverride }) => {
   const isSpeaking = useAppStore(selectIsSpeaking);
-  const emotion = useAppStore(selectEmotion);
-  const audioLevel = useAppStore(selectAudioLevel);
+  const signal = useAppStore(selectSignal);
+  const currentEmotion = useAppStore(selectEmotion);
+  const emotion = emotionOverride ?? currentEmotion;
+  const emotionSetAt = useAppStore(selectEmotionSetAt);
   const setVrmLoaded = useAppStore(state => state.setVrmLoaded);
+  const setVrmError = useAppStore(state => state.setVrmError);
+  const vrmPath = appearance.vrmPath;
+  // A model that failed once stays on the built-in character until the path changes
+  const [failedPath, setFailedPath] = useState<string | null>(null);
+  const showVrm = Boolean(vrmPath) && failedPath !== vrmPath;
 
-  useEffect(() => { setVrmLoaded(true); return () => setVrmLoaded(false); }, [setVrmLoaded]);
+  // The built-in character is ready at once; a VRM reports in once it has loaded
+  useEffect(() => {
+    setVrmLoaded(!showVrm);
+    return () => setVrmLoaded(false);
+  }, [showVrm, setVrmLoaded]);
+
+  useEffect(() => { setVrmError(null); }, [vrmPath, setVrmError]);
+
+  // Gestures follow the app state and mood
+  useEffect(() => animationDirector.setSignal(signal), [signal]);
+  useEffect(() => animationDirector.setEmotion(emotion), [emotion]);
+
+  const handleVrmLoad = useCallback(() => setVrmLoaded(true), [setVrmLoaded]);
+  const handleVrmError = useCallback((error: string) => {
+    console.warn('[VRM] Falling back to the built-in character:', error);
+    setVrmError(error);
+    setFailedPath(vrmPath ?? null);
+    toast.error('Could not load the VRM model, showing the built-in character instead', { description: error });
+  }, [vrmPath, setVrmError]);
 
   return (
     <>
@@ -195,16 +248,40 @@ const Scene: React.FC = () => {
       <pointLight position={[5, 5, 5]} intensity={2} color="#ffffff" />
       <pointLight position={[-5, 5, 5]} intensity={1.5} color="#00ffff" />
       <pointLight position={[0, -2, 4]} intensity={0.8} color="#ff00ff" />
-      <Float speed={2.5} rotationIntensity={0.4} floatIntensity={0.8}>
-        <AnimeCharacter isSpeaking={isSpeaking} emotion={emotion} audioLevel={audioLevel} />
-      </Float>
+      {showVrm && vrmPath ? (
+        <VRMCharacter
+          url={vrmPath}
+          isSpeaking={isSpeaking}
+          signal={signal}
+          emotion={emotion}
+          emotionSetAt={emotionSetAt}
+          expressions={appearance.expressions}
+          animations={appearance.animations}
+          loading={(progress) => <LoadingIndicator progress={progress} />}
+          onLoad={handleVrmLoad}
+          onError={handleVrmError}
+        />
+      ) : (
+        <Float speed={2.5} rotationIntensity={0.4} floatIntensity={0.8}>
+          <AnimeCharacter isSpeaking={isSpeaking} signal={signal} emotion={emotion} appearance={appearance} />
+        </Float>
+      )}
       <Stars radius={150} depth={80} count={4000} factor={7} saturation={0.8} fade speed={2} />
       <Environment preset="night" />
     </>
   );
 };
 
-const MikuCharacter3D: React.FC<{ className?: string }> = ({ className = '' }) => {
+interface MikuCharacter3DProps {
+  className?: string;
+  // Overrides for previews (e.g. the character editor); the active character and current mood otherwise
+  appearance?: CharacterAppearance;
+  emotion?: EmotionType;
+}
+
+const MikuCharacter3D: React.FC<MikuCharacter3DProps> = ({ className = '', appearance, emotion }) => {
+  const character = useActiveCharacter();
+
   return (
     <div className={`w-full h-full min-h-[400px] relative overflow-hidden rounded-[2.5rem] bg-gradient-to-b from-transparent to-black/20 ${className}`}>
       <WebGLErrorBoundary>
@@ -213,7 +290,7 @@ const MikuCharacter3D: React.FC<{ className?: string }> = ({ className = '' }) =
           dpr={[1, 2]}
           camera={{ position: [0, 0, 5], fov: 45 }}
         >
-          <React.Suspense fallback={<LoadingIndicator />}><Scene /></React.Suspense>
+          <React.Suspense fallback={<LoadingIndicator />}><Scene appearance={appearance ?? character.appearance} emotion={emotion} /></React.Suspense>
         </Canvas>
       </WebGLErrorBoundary>
     </div>
@@ -0,0 +1,95 @@
+import React from 'react';
+import { HeartPulse, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { moodService, MoodPoint } from '@/lib/moodService';
+import { useMood } from '@/hooks/useMood';
+import { useActiveCharacter } from '@/hooks/useCharacters';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Button } from './ui/button';
+
+const chartConfig = {
+  valence: { label: 'Valence', color: '#00d4d4' },
+  arousal: { label: 'Arousal', color: '#ff6b9d' },
+} satisfies ChartConfig;
+
+const formatPoint = ({ valence, arousal }: MoodPoint) =>
+  `${valence >= 0 ? '+' : ''}${valence.toFixed(2)} / ${arousal >= 0 ? '+' : ''}${arousal.toFixed(2)}`;
+
+const Reading: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-3 rounded-xl bg-white/5">
+    <p className="text-[9px] font-black tracking-[0.3em] uppercase text-white/30">{label}</p>
+    <p className="text-sm mt-1 capitalize">{value}</p>
+  </div>
+);
+
+const MoodPanel: React.FC = () => {
+  const mood = useMood();
+  const character = useActiveCharacter();
+  const data = mood.history.map(({ timestamp, valence, arousal }) => ({ timestamp, valence, arousal }));
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors" title={`How ${character.name} feels`}>
+          <HeartPulse size={18} className="text-miku-pink" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="bg-black/80 backdrop-blur-xl border-miku-cyan/20 text-white overflow-y-auto custom-scrollbar">
+        <SheetHeader>
+          <SheetTitle className="text-miku-cyan">{character.name}'s Mood</SheetTitle>
+          <SheetDescription className="text-white/50">
+            Valence is how pleasant and arousal how energetic {character.name} feels. Each message moves them, and
+            between chats they drift back toward the character's usual temper.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            <Reading label="Feeling" value={mood.emotion} />
+            <Reading label="Now" value={formatPoint(mood.current)} />
+            <Reading label="Long-term" value={formatPoint(mood.longTerm)} />
+          </div>
+
+          <section>
+            <h3 className="text-[9px] font-black tracking-[0.3em] uppercase text-white/30 mb-2">History</h3>
+            {data.length < 2 ? (
+              <p className="text-sm text-white/40 text-center py-8">
+                Chat a little and the mood graph fills in~ ✨
+              </p>
+            ) : (
+              <ChartContainer config={chartConfig} className="w-full">
+                <LineChart data={data} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} strokeOpacity={0.1} />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(timestamp: number) => format(timestamp, 'HH:mm')}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis domain={[-1, 1]} ticks={[-1, 0, 1]} tickLine={false} axisLine={false} />
+                  <ReferenceLine y={0} strokeOpacity={0.2} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="valence" type="monotone" stroke="var(--color-valence)" strokeWidth={2} dot={false} />
+                  <Line dataKey="arousal" type="monotone" stroke="var(--color-arousal)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </section>
+
+          <Button variant="outline" className="w-full border-white/10 bg-white/5" onClick={() => moodService.reset()}>
+            <RotateCcw size={14} className="mr-2" />
+            Reset mood
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MoodPanel;
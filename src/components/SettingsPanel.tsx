@@ -0,0 +1,379 @@
+import React from 'react';
+import { Play, RotateCcw, Settings as SettingsIcon } from 'lucide-react';
+import { EmotionType } from '@/store/appStore';
+import { settingsService } from '@/lib/settingsService';
+import { DEFAULT_EMOTION_PRESETS, ttsService, VoicePreset } from '@/lib/ttsService';
+import { isTTSEngineType, TTS_ENGINE_DEFAULTS, TTSEngineType } from '@/lib/tts';
+import { isProviderType, PROVIDER_DEFAULTS, ProviderType } from '@/lib/llm';
+import { useSettings } from '@/hooks/useSettings';
+import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+
+const LANGUAGES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'ja-JP', label: '日本語' },
+  { value: 'ko-KR', label: '한국어' },
+  { value: 'zh-CN', label: '中文 (简体)' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+];
+
+const SettingSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex justify-between">
+      <Label>{label}</Label>
+      <span className="text-xs text-white/50">{format(value)}</span>
+    </div>
+    <Slider min={min} max={max} step={step} value={[value]} onValueChange={([next]) => onChange(next)} />
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-4">
+    <h3 className="text-[9px] font-black tracking-[0.3em] uppercase text-white/30">{title}</h3>
+    {children}
+  </section>
+);
+
+const multiplier = (value: number) => `${value.toFixed(2)}×`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const tokens = (value: number) => `${value.toLocaleString()} tokens`;
+
+const EMOTIONS = Object.keys(DEFAULT_EMOTION_PRESETS) as EmotionType[];
+// Radix Select items cannot have an empty value
+const AUTOMATIC = 'automatic';
+
+const languageName = (lang: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(lang) ?? lang;
+  } catch {
+    return lang;
+  }
+};
+
+const VoicePicker: React.FC<{ lang: string }> = ({ lang }) => {
+  const { voicesFor, selectedVoiceName, setSelectedVoice } = useSpeechSynthesis();
+  const voices = voicesFor(lang);
+  const selected = selectedVoiceName(lang);
+  // A saved voice that is not installed on this device still shows, and speech falls back to automatic
+  const missing = selected && !voices.some(v => v.name === selected) ? selected : undefined;
+
+  return (
+    <div className="space-y-2">
+      <Label>{languageName(lang)}</Label>
+      <Select value={selected ?? AUTOMATIC} onValueChange={(name) => setSelectedVoice(lang, name === AUTOMATIC ? null : name)}>
+        <SelectTrigger className="bg-white/5 border-white/10">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTOMATIC}>Automatic{voices.length === 0 && ' (none installed)'}</SelectItem>
+          {missing && <SelectItem value={missing}>{missing} (unavailable)</SelectItem>}
+          {voices.map(v => (
+            <SelectItem key={v.voiceURI} value={v.name}>{v.name}{!v.localService && ' · online'}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+// Saved on blur so half-typed URLs never reach the engine; remounts when the saved value changes
+const BlurInput: React.FC<{ id: string; value: string; placeholder?: string; type?: string; onCommit: (value: string) => void }> = ({ id, value, placeholder, type, onCommit }) => (
+  <Input
+    key={value}
+    id={id}
+    type={type}
+    defaultValue={value}
+    placeholder={placeholder}
+    className="bg-white/5 border-white/10"
+    onBlur={(e) => e.target.value.trim() !== value && onCommit(e.target.value.trim())}
+    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+  />
+);
+
+const EmotionTuning: React.FC<{ emotion: EmotionType }> = ({ emotion }) => {
+  const { emotionPreset, isCustomized, setEmotionPreset, preview } = useSpeechSynthesis();
+  const preset = emotionPreset(emotion);
+  const change = (patch: Partial<VoicePreset>) => setEmotionPreset(emotion, { ...preset, ...patch });
+
+  return (
+    <AccordionItem value={emotion} className="border-white/10">
+      <div className="flex items-center gap-1">
+        <div className="flex-1">
+          <AccordionTrigger className="py-3 text-sm capitalize hover:no-underline">
+            {emotion}{isCustomized(emotion) && <span className="ml-2 text-[9px] tracking-widest uppercase text-miku-cyan">Custom</span>}
+          </AccordionTrigger>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title={`Hear ${emotion}`} onClick={() => preview(emotion)}>
+          <Play size={14} />
+        </Button>
+      </div>
+      <AccordionContent className="space-y-4 pt-1">
+        <SettingSlider label="Speed" value={preset.rate} min={0.5} max={2} step={0.05} format={multiplier} onChange={(rate) => change({ rate })} />
+        <SettingSlider label="Pitch" value={preset.pitch} min={0} max={2} step={0.05} format={multiplier} onChange={(pitch) => change({ pitch })} />
+        <SettingSlider label="Volume" value={preset.volume} min={0} max={1} step={0.05} format={percent} onChange={(volume) => change({ volume })} />
+        {isCustomized(emotion) && (
+          <Button variant="ghost" size="sm" className="text-white/60" onClick={() => setEmotionPreset(emotion, null)}>
+            <RotateCcw size={12} className="mr-2" />
+            Use the character's {emotion} voice
+          </Button>
+        )}
+      </AccordionContent>
+    </AccordionItem>
+  );
+};
+
+const SettingsPanel: React.FC = () => {
+  const settings = useSettings();
+  const { ai, speech, voice } = settings;
+  // A new backend starts from its own endpoint, model and context size
+  const switchProvider = (provider: ProviderType) => {
+    const { baseUrl, model, contextWindow } = PROVIDER_DEFAULTS[provider];
+    settingsService.update({ ai: { provider, baseUrl, model, contextWindow } });
+  };
+  // Keep a language set elsewhere (or by an older version) selectable
+  const languages = LANGUAGES.some(l => l.value === speech.language)
+    ? LANGUAGES
+    : [...LANGUAGES, { value: speech.language, label: speech.language }];
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors" title="Settings">
+          <SettingsIcon size={18} className="text-white/70" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="bg-black/80 backdrop-blur-xl border-miku-cyan/20 text-white overflow-y-auto custom-scrollbar">
+        <SheetHeader>
+          <SheetTitle className="text-miku-cyan">Settings</SheetTitle>
+          <SheetDescription className="text-white/50">
+            Changes apply right away and are saved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-8">
+          <Section title="Chat backend">
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={ai.provider} onValueChange={(provider) => isProviderType(provider) && switchProvider(provider)}>
+                <SelectTrigger className="bg-white/5 border-white/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROVIDER_DEFAULTS) as ProviderType[]).map(type => (
+                    <SelectItem key={type} value={type}>{PROVIDER_DEFAULTS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {ai.provider !== 'local' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-url">Server URL</Label>
+                  <BlurInput
+                    id="ai-url"
+                    value={ai.baseUrl}
+                    placeholder={PROVIDER_DEFAULTS[ai.provider].baseUrl}
+                    onCommit={(baseUrl) => settingsService.update({ ai: { baseUrl } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-model">Model</Label>
+                  <BlurInput
+                    id="ai-model"
+                    value={ai.model}
+                    placeholder={PROVIDER_DEFAULTS[ai.provider].model}
+                    onCommit={(model) => settingsService.update({ ai: { model } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-key">API key</Label>
+                  <BlurInput
+                    id="ai-key"
+                    type="password"
+                    value={ai.apiKey}
+                    placeholder="None"
+                    onCommit={(apiKey) => settingsService.update({ ai: { apiKey } })}
+                  />
+                  <p className="text-xs text-white/50">Saved only in this browser and sent only to the server above.</p>
+                </div>
+                <SettingSlider
+                  label="Context size"
+                  value={ai.contextWindow}
+                  min={1024}
+                  max={131072}
+                  step={1024}
+                  format={tokens}
+                  onChange={(contextWindow) => settingsService.update({ ai: { contextWindow } })}
+                />
+              </>
+            )}
+          </Section>
+
+          <Section title="Voice">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="voice-enabled">Speak replies aloud</Label>
+              <Switch
+                id="voice-enabled"
+                checked={voice.enabled}
+                onCheckedChange={(enabled) => settingsService.update({ voice: { enabled } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Engine</Label>
+              <Select
+                value={voice.engine}
+                onValueChange={(engine) => isTTSEngineType(engine) && settingsService.update({ voice: { engine } })}
+              >
+                <SelectTrigger className="bg-white/5 border-white/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TTS_ENGINE_DEFAULTS) as TTSEngineType[]).map(type => (
+                    <SelectItem key={type} value={type}>{TTS_ENGINE_DEFAULTS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {voice.engine === 'http' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="tts-url">Synthesizer URL</Label>
+                  <BlurInput
+                    id="tts-url"
+                    value={voice.engineUrl}
+                    placeholder={TTS_ENGINE_DEFAULTS.http.url}
+                    onCommit={(engineUrl) => settingsService.update({ voice: { engineUrl } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tts-speaker">Speaker</Label>
+                  <BlurInput
+                    id="tts-speaker"
+                    value={voice.speaker}
+                    placeholder="Server default"
+                    onCommit={(speaker) => settingsService.update({ voice: { speaker } })}
+                  />
+                </div>
+              </>
+            )}
+            <SettingSlider
+              label="Speed"
+              value={voice.rate}
+              min={0.5}
+              max={2}
+              step={0.05}
+              format={multiplier}
+              onChange={(rate) => settingsService.update({ voice: { rate } })}
+            />
+            <SettingSlider
+              label="Pitch"
+              value={voice.pitch}
+              min={0.5}
+              max={2}
+              step={0.05}
+              format={multiplier}
+              onChange={(pitch) => settingsService.update({ voice: { pitch } })}
+            />
+            <SettingSlider
+              label="Volume"
+              value={voice.volume}
+              min={0}
+              max={1}
+              step={0.05}
+              format={percent}
+              onChange={(volume) => settingsService.update({ voice: { volume } })}
+            />
+          </Section>
+
+          <Section title="Voices">
+            {voice.engine === 'http' ? (
+              <p className="text-xs text-white/50">The synthesizer picks the voice; set a speaker above to change it.</p>
+            ) : ttsService.isSupported ? (
+              ttsService.spokenLanguages.map(lang => <VoicePicker key={lang} lang={lang} />)
+            ) : (
+              <p className="text-xs text-white/50">This browser cannot speak aloud.</p>
+            )}
+          </Section>
+
+          <Section title="Emotions">
+            <p className="text-xs text-white/50">How each mood sounds. Press play to hear a sample line.</p>
+            <Accordion type="single" collapsible>
+              {EMOTIONS.map(emotion => <EmotionTuning key={emotion} emotion={emotion} />)}
+            </Accordion>
+          </Section>
+
+          <Section title="Listening">
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={speech.language} onValueChange={(language) => settingsService.update({ speech: { language } })}>
+                <SelectTrigger className="bg-white/5 border-white/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SettingSlider
+              label="Stop after silence"
+              value={speech.silenceTimeout}
+              min={500}
+              max={10000}
+              step={250}
+              format={seconds}
+              onChange={(silenceTimeout) => settingsService.update({ speech: { silenceTimeout } })}
+            />
+            <SettingSlider
+              label="Longest recording"
+              value={speech.maxDuration}
+              min={5000}
+              max={120000}
+              step={5000}
+              format={seconds}
+              onChange={(maxDuration) => settingsService.update({ speech: { maxDuration } })}
+            />
+          </Section>
+
+          <Section title="Advanced">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="debug-mode">Debug mode</Label>
+              <Switch
+                id="debug-mode"
+                checked={settings.debugMode}
+                onCheckedChange={(debugMode) => settingsService.update({ debugMode })}
+              />
+            </div>
+          </Section>
+
+          <Button variant="outline" className="w-full border-white/10 bg-white/5" onClick={() => settingsService.reset()}>
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRM, VRMLoaderPlugin, VRMUtils } from '@pixiv/three-vrm';
+import { AppSignal, EmotionType } from '@/store/appStore';
+import { CLOSED_MOUTH } from '@/lib/audioAnalyzer';
+import { lipSync } from '@/lib/lipSync';
+import { ExpressionMixer, ExpressionWeights } from '@/lib/expressionMixer';
+import { animationDirector, HumanoidAnimationPlayer } from '@/lib/animation';
+import { useIdleMotion } from '@/hooks/useIdleMotion';
+
+// Where the head should sit, matching the procedural character's framing
+const HEAD_HEIGHT = 0.25;
+
+type VRMLoadState =
+  | { status: 'loading'; progress: number }
+  | { status: 'loaded'; vrm: VRM }
+  | { status: 'error'; error: string };
+
+/**
+ * Load a .vrm file; the model is disposed when the url changes or the component unmounts
+ */
+function useVRM(url: string): VRMLoadState {
+  const [state, setState] = useState<VRMLoadState>({ status: 'loading', progress: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: VRM | null = null;
+    setState({ status: 'loading', progress: 0 });
+
+    const loader = new GLTFLoader();
+    loader.register(parser => new VRMLoaderPlugin(parser));
+    loader.load(
+      url,
+      (gltf) => {
+        const vrm = gltf.userData.vrm as VRM | undefined;
+        if (!vrm) {
+          if (!cancelled) setState({ status: 'error', error: `${url} is a glTF file without VRM data` });
+          return;
+        }
+        VRMUtils.removeUnnecessaryVertices(gltf.scene);
+        VRMUtils.removeUnnecessaryJoints(gltf.scene);
+        // VRM 0.x models face away from the camera
+        VRMUtils.rotateVRM0(vrm);
+        vrm.scene.traverse(object => { object.frustumCulled = false; });
+
+        if (cancelled) {
+          VRMUtils.deepDispose(vrm.scene);
+          return;
+        }
+        loaded = vrm;
+        setState({ status: 'loaded', vrm });
+      },
+      (event) => {
+        if (!cancelled && event.lengthComputable) {
+          setState({ status: 'loading', progress: (event.loaded / event.total) * 100 });
+        }
+      },
+      (error) => {
+        if (cancelled) return;
+        const message = error instanceof Error ? error.message : String(error);
+        setState({ status: 'error', error: `Could not load ${url}: ${message}` });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      if (loaded) VRMUtils.deepDispose(loaded.scene);
+    };
+  }, [url]);
+
+  return state;
+}
+
+interface VRMCharacterProps {
+  url: string;
+  isSpeaking: boolean;
+  signal: AppSignal;
+  emotion: EmotionType;
+  // Changes with every new emotion cue, so a repeated emotion shows again
+  emotionSetAt?: number;
+  // Per-emotion expression weights from the character card
+  expressions?: Partial<Record<EmotionType, ExpressionWeights>>;
+  // VRMA/glTF gesture clips from the character card, over the built-in gestures
+  animations?: Record<string, string>;
+  // Shown while the model downloads
+  loading: (progress: number) => React.ReactNode;
+  onLoad: () => void;
+  onError: (error: string) => void;
+}
+
+type VRMModelProps = Pick<VRMCharacterProps, 'isSpeaking' | 'signal' | 'emotion' | 'emotionSetAt' | 'expressions' | 'animations'> & { vrm: VRM };
+
+const VRMModel: React.FC<VRMModelProps> = ({ vrm, isSpeaking, signal, emotion, emotionSetAt, expressions, animations }) => {
+  const mixer = useMemo(() => new ExpressionMixer(), []);
+  const idle = useIdleMotion(signal, emotion);
+  const player = useMemo(() => new HumanoidAnimationPlayer(vrm), [vrm]);
+
+  useEffect(() => () => player.dispose(), [player]);
+  useEffect(() => { if (animations) player.loadClips(animations); }, [player, animations]);
+  useEffect(() => animationDirector.subscribe(cue => { player.play(cue); }), [player]);
+
+  useEffect(() => mixer.setMapping(expressions), [mixer, expressions]);
+  useEffect(() => mixer.setEmotion(emotion), [mixer, emotion, emotionSetAt]);
+
+  const [offset] = useState(() => {
+    // Line the head up with the camera whatever the model's height
+    vrm.scene.updateMatrixWorld(true);
+    const head = vrm.humanoid?.getNormalizedBoneNode('head');
+    const headY = head ? head.getWorldPosition(new THREE.Vector3()).y : 1.4;
+    return HEAD_HEIGHT - headY;
+  });
+
+  useFrame((_, delta) => {
+    const pose = idle.update(delta);
+    animationDirector.update(delta);
+    player.update(delta, pose);
+    const weights = mixer.update(delta, { blink: pose.blink, visemes: isSpeaking ? lipSync.visemes : CLOSED_MOUTH });
+    for (const [expression, weight] of Object.entries(weights)) {
+      vrm.expressionManager?.setValue(expression, weight);
+    }
+    vrm.update(delta);
+  });
+
+  return <primitive object={vrm.scene} position={[0, offset, 0]} />;
+};
+
+/**
+ * A VRM avatar loaded from `url`; the parent swaps in a fallback when `onError` fires
+ */
+const VRMCharacter: React.FC<VRMCharacterProps> = ({ url, loading, onLoad, onError, ...model }) => {
+  const state = useVRM(url);
+
+  useEffect(() => {
+    if (state.status === 'loaded') onLoad();
+    if (state.status === 'error') onError(state.error);
+  }, [state, onLoad, onError]);
+
+  if (state.status === 'loading') return <>{loading(state.progress)}</>;
+  if (state.status === 'error') return null;
+  return <VRMModel vrm={state.vrm} {...model} />;
+};
+
+export default VRMCharacter;
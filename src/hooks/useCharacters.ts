@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { characterService, CharacterCard } from '@/lib/characters';
+
+const subscribe = (listener: () => void) => characterService.subscribe(listener);
+
+/**
+ * Live list of every character card, bundled and user-made
+ */
+export const useCharacters = (): CharacterCard[] => {
+  useEffect(() => { characterService.load(); }, []);
+  return useSyncExternalStore(subscribe, () => characterService.getAll());
+};
+
+/**
+ * The companion currently chatting
+ */
+export const useActiveCharacter = (): CharacterCard => {
+  useEffect(() => { characterService.load(); }, []);
+  return useSyncExternalStore(subscribe, () => characterService.active);
+};
@@ -0,0 +1,13 @@
+import { useEffect, useMemo } from 'react';
+import { AppSignal, EmotionType } from '@/store/appStore';
+import { IdleAnimator } from '@/lib/idleMotion';
+
+/**
+ * An idle animator for one character, kept in step with the app signal and emotion
+ */
+export const useIdleMotion = (signal: AppSignal, emotion: EmotionType): IdleAnimator => {
+  const animator = useMemo(() => new IdleAnimator(), []);
+  useEffect(() => animator.setSignal(signal), [animator, signal]);
+  useEffect(() => animator.setEmotion(emotion), [animator, emotion]);
+  return animator;
+};
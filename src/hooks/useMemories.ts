@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { memoryService, MemoryFact } from '@/lib/memoryService';
+
+/**
+ * Live view of everything Miku remembers about the user
+ */
+export const useMemories = (): MemoryFact[] => {
+  useEffect(() => { memoryService.load(); }, []);
+
+  return useSyncExternalStore(
+    (listener) => memoryService.subscribe(listener),
+    () => memoryService.getAll()
+  );
+};
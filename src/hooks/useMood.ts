@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { moodService, MoodSnapshot } from '@/lib/moodService';
+
+/**
+ * Live view of the active character's mood and its recent history
+ */
+export const useMood = (): MoodSnapshot =>
+  useSyncExternalStore(
+    (listener) => moodService.subscribe(listener),
+    () => moodService.getSnapshot()
+  );
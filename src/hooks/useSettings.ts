@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { settingsService, Settings } from '@/lib/settingsService';
+
+const subscribe = (listener: () => void) => settingsService.subscribe(listener);
+
+/**
+ * Live view of the user's settings
+ */
+export const useSettings = (): Settings => useSyncExternalStore(subscribe, () => settingsService.get());
@@ -1,91 +1,59 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useCallback, useSyncExternalStore } from 'react';
+import { EmotionType } from '@/store/appStore';
+import { primaryLanguage, ttsService, VoicePreset } from '@/lib/ttsService';
+import { settingsService } from '@/lib/settingsService';
+import { useSettings } from './useSettings';
 
 interface UseSpeechSynthesisReturn {
-  speak: (text: string) => void;
-  stop: () => void;
-  isSpeaking: boolean;
   isSupported: boolean;
   voices: SpeechSynthesisVoice[];
-  selectedVoice: SpeechSynthesisVoice | null;
-  setSelectedVoice: (voice: SpeechSynthesisVoice | null) => void;
+  // Installed voices for a language, in the browser's order
+  voicesFor: (lang: string) => SpeechSynthesisVoice[];
+  // The user's pick for a language; undefined means automatic
+  selectedVoiceName: (lang: string) => string | undefined;
+  setSelectedVoice: (lang: string, voiceName: string | null) => void;
+  // Delivery actually used for an emotion, and whether the user changed it
+  emotionPreset: (emotion: EmotionType) => VoicePreset;
+  isCustomized: (emotion: EmotionType) => boolean;
+  setEmotionPreset: (emotion: EmotionType, preset: VoicePreset | null) => void;
+  preview: (emotion: EmotionType, preset?: VoicePreset) => void;
+  stop: () => void;
 }
 
-export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
-
-  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
-
-  useEffect(() => {
-    if (!isSupported) return;
-
-    const loadVoices = () => {
-      const availableVoices = window.speechSynthesis.getVoices();
-      setVoices(availableVoices);
-      
-      // Prefer Japanese or anime-like female voices
-      const preferredVoice = availableVoices.find(
-        v => v.lang.includes('ja') && v.name.toLowerCase().includes('female')
-      ) || availableVoices.find(
-        v => v.name.toLowerCase().includes('female') || v.name.toLowerCase().includes('woman')
-      ) || availableVoices.find(
-        v => v.lang.includes('en')
-      ) || availableVoices[0];
-
-      if (preferredVoice && !selectedVoice) {
-        setSelectedVoice(preferredVoice);
-      }
-    };
+const subscribeVoices = (listener: () => void) => ttsService.subscribeVoices(listener);
 
-    loadVoices();
-    window.speechSynthesis.onvoiceschanged = loadVoices;
-
-    return () => {
-      window.speechSynthesis.onvoiceschanged = null;
-    };
-  }, [isSupported, selectedVoice]);
-
-  const speak = useCallback((text: string) => {
-    if (!isSupported || !text) return;
-
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
-
-    const utterance = new SpeechSynthesisUtterance(text);
-    utteranceRef.current = utterance;
-
-    if (selectedVoice) {
-      utterance.voice = selectedVoice;
-    }
-
-    // Anime-like voice settings
-    utterance.rate = 1.1; // Slightly faster
-    utterance.pitch = 1.3; // Higher pitch for cute voice
-    utterance.volume = 1;
+/**
+ * Voice choice and per-emotion delivery; edits are saved in the settings and applied by the TTS service
+ */
+export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
+  const voices = useSyncExternalStore(subscribeVoices, () => ttsService.getVoices());
+  const { voice } = useSettings();
 
-    utterance.onstart = () => setIsSpeaking(true);
-    utterance.onend = () => setIsSpeaking(false);
-    utterance.onerror = () => setIsSpeaking(false);
+  const voicesFor = useCallback(
+    (lang: string) => voices.filter(v => primaryLanguage(v.lang) === primaryLanguage(lang)),
+    [voices]
+  );
 
-    window.speechSynthesis.speak(utterance);
-  }, [isSupported, selectedVoice]);
+  const setSelectedVoice = useCallback((lang: string, voiceName: string | null) => {
+    const { [primaryLanguage(lang)]: _previous, ...rest } = settingsService.get().voice.voices;
+    settingsService.update({ voice: { voices: voiceName ? { ...rest, [primaryLanguage(lang)]: voiceName } : rest } });
+  }, []);
 
-  const stop = useCallback(() => {
-    if (isSupported) {
-      window.speechSynthesis.cancel();
-      setIsSpeaking(false);
-    }
-  }, [isSupported]);
+  const setEmotionPreset = useCallback((emotion: EmotionType, preset: VoicePreset | null) => {
+    const { [emotion]: _previous, ...rest } = settingsService.get().voice.emotions;
+    settingsService.update({ voice: { emotions: preset ? { ...rest, [emotion]: preset } : rest } });
+  }, []);
 
   return {
-    speak,
-    stop,
-    isSpeaking,
-    isSupported,
+    isSupported: ttsService.isSupported,
     voices,
-    selectedVoice,
+    voicesFor,
+    selectedVoiceName: (lang) => voice.voices[primaryLanguage(lang)],
     setSelectedVoice,
+    emotionPreset: (emotion) => ttsService.getEmotionPreset(emotion),
+    isCustomized: (emotion) => emotion in voice.emotions,
+    setEmotionPreset,
+    preview: (emotion, preset) => ttsService.preview(emotion, preset),
+    stop: () => ttsService.stop(),
   };
 };
@@ -0,0 +1,87 @@
+/**
+ * Animation Director
+ * The state machine that decides when to gesture: on app signal transitions, on emotion changes and
+ * on cues such as a greeting or a performance tag in a reply. Players subscribe and play the clip by name
+ */
+
+import { AppSignal, EmotionType } from '@/store/appStore';
+
+export interface GestureCue {
+  name: string;
+  // A cue doesn't cut off a playing gesture of higher priority
+  priority: number;
+}
+
+export const GESTURE_PRIORITY = { signal: 1, emotion: 2, cue: 3 } as const;
+
+// Gestures for entering an app state
+const SIGNAL_GESTURES: Partial<Record<AppSignal, string>> = {
+  LISTENING: 'nod',
+  ERROR: 'shake',
+};
+
+const EMOTION_GESTURES: Partial<Record<EmotionType, string>> = {
+  excited: 'jump',
+  shy: 'bow',
+  annoyed: 'shake',
+};
+
+// Seconds between nods while the user keeps talking
+const LISTENING_NOD_INTERVAL: [number, number] = [3.5, 7];
+
+export class AnimationDirector {
+  private signal: AppSignal = 'IDLE';
+  private emotion: EmotionType = 'neutral';
+  private listeners = new Set<(cue: GestureCue) => void>();
+  private nextNod = 0;
+
+  subscribe(listener: (cue: GestureCue) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  setSignal(signal: AppSignal): void {
+    if (signal === this.signal) return;
+    this.signal = signal;
+    const gesture = SIGNAL_GESTURES[signal];
+    if (gesture) this.emit(gesture, GESTURE_PRIORITY.signal);
+    if (signal === 'LISTENING') this.nextNod = this.nodInterval();
+  }
+
+  setEmotion(emotion: EmotionType): void {
+    if (emotion === this.emotion) return;
+    this.emotion = emotion;
+    const gesture = EMOTION_GESTURES[emotion];
+    if (gesture) this.emit(gesture, GESTURE_PRIORITY.emotion);
+  }
+
+  /**
+   * Play a gesture by name now, e.g. 'wave' for a greeting
+   */
+  cue(name: string): void {
+    this.emit(name, GESTURE_PRIORITY.cue);
+  }
+
+  /**
+   * Advance by `delta` seconds; keeps nodding along while listening
+   */
+  update(delta: number): void {
+    if (this.signal !== 'LISTENING') return;
+    this.nextNod -= delta;
+    if (this.nextNod > 0) return;
+    this.nextNod = this.nodInterval();
+    this.emit('nod', GESTURE_PRIORITY.signal);
+  }
+
+  private nodInterval(): number {
+    const [min, max] = LISTENING_NOD_INTERVAL;
+    return min + Math.random() * (max - min);
+  }
+
+  private emit(name: string, priority: number): void {
+    const cue = { name, priority };
+    this.listeners.forEach(listener => listener(cue));
+  }
+}
+
+export const animationDirector = new AnimationDirector();
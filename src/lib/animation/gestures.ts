@@ -0,0 +1,107 @@
+/**
+ * Built-in Gestures
+ * Short procedural clips (wave, nod, jump, shake, bow) keyed on humanoid bones, so every VRM can
+ * gesture before any VRMA files are supplied
+ */
+
+import * as THREE from 'three';
+import { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+// Euler angles in radians for a model facing +z, as in idleMotion
+type BoneKey = [time: number, x: number, y: number, z: number];
+
+interface GestureDefinition {
+  duration: number;
+  bones: Partial<Record<VRMHumanBoneName, BoneKey[]>>;
+  // Vertical hip offset in metres
+  hips?: [time: number, y: number][];
+}
+
+// Upper arms hang this far down from the T-pose; gestures start and end here
+export const UPPER_ARM_REST = 1.25;
+
+const R = UPPER_ARM_REST;
+
+const GESTURES: Record<string, GestureDefinition> = {
+  wave: {
+    duration: 2,
+    bones: {
+      rightUpperArm: [[0, 0, 0, R], [0.35, 0, 0.2, -0.15], [1.5, 0, 0.2, -0.15], [2, 0, 0, R]],
+      rightLowerArm: [
+        [0, 0, 0, 0], [0.35, 0, 0, -1.3],
+        [0.55, 0, 0, -1], [0.75, 0, 0, -1.6], [0.95, 0, 0, -1], [1.15, 0, 0, -1.6], [1.35, 0, 0, -1.1],
+        [1.5, 0, 0, -1.3], [2, 0, 0, 0],
+      ],
+      head: [[0, 0, 0, 0], [0.4, 0, 0, 0.08], [1.5, 0, 0, 0.08], [2, 0, 0, 0]],
+    },
+  },
+  nod: {
+    duration: 1,
+    bones: {
+      neck: [[0, 0, 0, 0], [0.2, 0.08, 0, 0], [0.4, 0, 0, 0], [0.6, 0.06, 0, 0], [1, 0, 0, 0]],
+      head: [[0, 0, 0, 0], [0.2, 0.18, 0, 0], [0.4, 0, 0, 0], [0.6, 0.14, 0, 0], [1, 0, 0, 0]],
+    },
+  },
+  jump: {
+    duration: 0.9,
+    bones: {
+      spine: [[0, 0, 0, 0], [0.15, 0.15, 0, 0], [0.4, -0.05, 0, 0], [0.65, 0.1, 0, 0], [0.9, 0, 0, 0]],
+      leftUpperLeg: [[0, 0, 0, 0], [0.15, -0.5, 0, 0], [0.4, -0.1, 0, 0], [0.65, -0.4, 0, 0], [0.9, 0, 0, 0]],
+      rightUpperLeg: [[0, 0, 0, 0], [0.15, -0.5, 0, 0], [0.4, -0.1, 0, 0], [0.65, -0.4, 0, 0], [0.9, 0, 0, 0]],
+      leftLowerLeg: [[0, 0, 0, 0], [0.15, 0.9, 0, 0], [0.4, 0.2, 0, 0], [0.65, 0.7, 0, 0], [0.9, 0, 0, 0]],
+      rightLowerLeg: [[0, 0, 0, 0], [0.15, 0.9, 0, 0], [0.4, 0.2, 0, 0], [0.65, 0.7, 0, 0], [0.9, 0, 0, 0]],
+      leftUpperArm: [[0, 0, 0, -R], [0.15, 0, 0, -R], [0.4, 0, 0, -0.4], [0.65, 0, 0, -R], [0.9, 0, 0, -R]],
+      rightUpperArm: [[0, 0, 0, R], [0.15, 0, 0, R], [0.4, 0, 0, 0.4], [0.65, 0, 0, R], [0.9, 0, 0, R]],
+    },
+    hips: [[0, 0], [0.15, -0.08], [0.4, 0.12], [0.65, -0.06], [0.9, 0]],
+  },
+  shake: {
+    duration: 1.1,
+    bones: {
+      head: [[0, 0, 0, 0], [0.2, 0, 0.25, 0], [0.45, 0, -0.25, 0], [0.7, 0, 0.2, 0], [0.9, 0, -0.1, 0], [1.1, 0, 0, 0]],
+    },
+  },
+  bow: {
+    duration: 1.8,
+    bones: {
+      spine: [[0, 0, 0, 0], [0.5, 0.3, 0, 0], [1.1, 0.3, 0, 0], [1.8, 0, 0, 0]],
+      head: [[0, 0, 0, 0], [0.5, 0.2, 0, 0], [1.1, 0.2, 0, 0], [1.8, 0, 0, 0]],
+    },
+  },
+};
+
+export const BUILT_IN_GESTURES = Object.keys(GESTURES);
+
+/**
+ * The built-in gestures as clips on `vrm`'s normalized bones
+ */
+export function createGestureClips(vrm: VRM): Map<string, THREE.AnimationClip> {
+  const clips = new Map<string, THREE.AnimationClip>();
+  const humanoid = vrm.humanoid;
+  if (!humanoid) return clips;
+
+  // VRM 0.x models are turned around to face the camera, so mirror the motion with them
+  const mirror = vrm.meta?.metaVersion === '0' ? -1 : 1;
+  const euler = new THREE.Euler();
+  const quaternion = new THREE.Quaternion();
+
+  for (const [name, gesture] of Object.entries(GESTURES)) {
+    const tracks: THREE.KeyframeTrack[] = [];
+    for (const [bone, keys] of Object.entries(gesture.bones) as [VRMHumanBoneName, BoneKey[]][]) {
+      const node = humanoid.getNormalizedBoneNode(bone);
+      if (!node) continue;
+      const values = keys.flatMap(([, x, y, z]) =>
+        quaternion.setFromEuler(euler.set(x * mirror, y, z * mirror)).toArray() as number[]);
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${node.uuid}.quaternion`, keys.map(([time]) => time), values));
+    }
+
+    const hips = humanoid.getNormalizedBoneNode('hips');
+    const rest = humanoid.normalizedRestPose.hips?.position;
+    if (gesture.hips && hips && rest) {
+      const values = gesture.hips.flatMap(([, y]) => [rest[0], rest[1] + y, rest[2]]);
+      tracks.push(new THREE.VectorKeyframeTrack(`${hips.uuid}.position`, gesture.hips.map(([time]) => time), values));
+    }
+    clips.set(name, new THREE.AnimationClip(name, gesture.duration, tracks));
+  }
+  return clips;
+}
@@ -0,0 +1,12 @@
+/**
+ * Avatar Animation
+ * Gesture clips for VRM avatars: built-in or loaded from VRMA/glTF, retargeted to the humanoid,
+ * chosen by the director and played by a per-model player
+ */
+
+export type { GestureCue } from './director';
+export { AnimationDirector, animationDirector, GESTURE_PRIORITY } from './director';
+export { HumanoidAnimationPlayer } from './player';
+export { BUILT_IN_GESTURES, createGestureClips, UPPER_ARM_REST } from './gestures';
+export type { SourceAnimation } from './retarget';
+export { loadSourceAnimation, retargetClip } from './retarget';
@@ -0,0 +1,156 @@
+/**
+ * Humanoid Animation Player
+ * Plays gesture clips on a VRM through an AnimationMixer, crossfading between them, and layers the
+ * idle pose on top so breathing and glances carry on through every gesture
+ */
+
+import * as THREE from 'three';
+import { VRM, VRMHumanBoneList, VRMHumanBoneName } from '@pixiv/three-vrm';
+import { IdlePose, Rotation } from '../idleMotion';
+import { registerGesture } from '../performanceTags';
+import { GestureCue } from './director';
+import { createGestureClips, UPPER_ARM_REST } from './gestures';
+import { loadSourceAnimation, retargetClip } from './retarget';
+
+// Seconds to blend into and out of a gesture
+const FADE_SECONDS = 0.3;
+
+const RADIANS_TO_DEGREES = 180 / Math.PI;
+
+interface PlayingGesture {
+  name: string;
+  action: THREE.AnimationAction;
+  priority: number;
+}
+
+export class HumanoidAnimationPlayer {
+  private mixer: THREE.AnimationMixer;
+  private clips: Map<string, THREE.AnimationClip>;
+  private current: PlayingGesture | null = null;
+  // Started on the next update, once the bones are back at their gesture pose
+  private pending: GestureCue | null = null;
+  private mirror: number;
+  // Each bone's pose from gestures alone, before the idle layer; restored before every mixer update
+  // because the mixer only writes values that changed since its last frame
+  private basePose = new Map<THREE.Object3D, { quaternion: THREE.Quaternion; position: THREE.Vector3 }>();
+  private euler = new THREE.Euler();
+  private quaternion = new THREE.Quaternion();
+
+  constructor(private vrm: VRM) {
+    this.mixer = new THREE.AnimationMixer(vrm.scene);
+    this.clips = createGestureClips(vrm);
+    // VRM 0.x models are turned around to face the camera, so mirror the motion with them
+    this.mirror = vrm.meta?.metaVersion === '0' ? -1 : 1;
+
+    vrm.humanoid?.resetNormalizedPose();
+    this.rotate('leftUpperArm', { x: 0, y: 0, z: -UPPER_ARM_REST }, false);
+    this.rotate('rightUpperArm', { x: 0, y: 0, z: UPPER_ARM_REST }, false);
+    for (const bone of VRMHumanBoneList) {
+      const node = vrm.humanoid?.getNormalizedBoneNode(bone);
+      if (node) this.basePose.set(node, { quaternion: node.quaternion.clone(), position: node.position.clone() });
+    }
+  }
+
+  has(name: string): boolean {
+    return this.clips.has(name);
+  }
+
+  /**
+   * Load VRMA/glTF clips by gesture name, replacing built-in gestures of the same name
+   */
+  async loadClips(urls: Record<string, string>): Promise<void> {
+    await Promise.all(Object.entries(urls).map(async ([name, url]) => {
+      try {
+        const source = await loadSourceAnimation(url);
+        const clip = retargetClip(source, source.clips[0], this.vrm);
+        if (!clip) throw new Error(`${url} moves none of the model's humanoid bones`);
+        this.clips.set(name, clip);
+        registerGesture(name);
+      } catch (error) {
+        console.warn(`[Animation] Could not load the "${name}" clip:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Crossfade into a gesture; returns false when it is unknown or a more important one is playing
+   */
+  play(cue: GestureCue): boolean {
+    if (!this.clips.has(cue.name)) return false;
+    const current = this.pending ?? this.current;
+    if (current && (current.priority > cue.priority || current.name === cue.name)) return false;
+    this.pending = cue;
+    return true;
+  }
+
+  /**
+   * Advance by `delta` seconds: gestures first, then the idle layer on top
+   */
+  update(delta: number, idle: IdlePose): void {
+    const humanoid = this.vrm.humanoid;
+    if (!humanoid) return;
+
+    for (const [node, pose] of this.basePose) {
+      node.quaternion.copy(pose.quaternion);
+      node.position.copy(pose.position);
+    }
+    if (this.pending) this.start(this.pending);
+    const current = this.current;
+    if (current && current.action.time >= current.action.getClip().duration - FADE_SECONDS) {
+      current.action.fadeOut(FADE_SECONDS);
+      this.current = null;
+    }
+    this.mixer.update(delta);
+    for (const [node, pose] of this.basePose) {
+      pose.quaternion.copy(node.quaternion);
+      pose.position.copy(node.position);
+    }
+
+    this.rotate('hips', { x: 0, y: 0, z: idle.hips.roll });
+    this.rotate('spine', idle.spine);
+    this.rotate('chest', idle.chest);
+    // Split the head turn with the neck so it doesn't look like it swivels on a pin
+    const half = { x: idle.head.x / 2, y: idle.head.y / 2, z: idle.head.z / 2 };
+    this.rotate('neck', half);
+    this.rotate('head', half);
+    const hips = humanoid.getNormalizedBoneNode('hips');
+    if (hips) hips.position.x += idle.hips.offset * this.mirror;
+
+    if (this.vrm.lookAt) {
+      // Look-at angles are in degrees; positive pitch looks up
+      this.vrm.lookAt.yaw = idle.eyes.y * RADIANS_TO_DEGREES;
+      this.vrm.lookAt.pitch = -idle.eyes.x * RADIANS_TO_DEGREES;
+    }
+  }
+
+  dispose(): void {
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.vrm.scene);
+  }
+
+  private start(cue: GestureCue): void {
+    this.pending = null;
+    const clip = this.clips.get(cue.name);
+    if (!clip) return;
+
+    const action = this.mixer.clipAction(clip);
+    action.reset();
+    action.setLoop(THREE.LoopOnce, 1);
+    action.clampWhenFinished = true;
+    action.play();
+    if (this.current) action.crossFadeFrom(this.current.action, FADE_SECONDS, false);
+    else action.fadeIn(FADE_SECONDS);
+    this.current = { name: cue.name, action, priority: cue.priority };
+  }
+
+  /**
+   * Set a bone's rotation, or add to whatever the gestures gave it
+   */
+  private rotate(bone: VRMHumanBoneName, rotation: Rotation, additive = true): void {
+    const node = this.vrm.humanoid?.getNormalizedBoneNode(bone);
+    if (!node) return;
+    this.quaternion.setFromEuler(this.euler.set(rotation.x * this.mirror, rotation.y, rotation.z * this.mirror));
+    if (additive) node.quaternion.multiply(this.quaternion);
+    else node.quaternion.copy(this.quaternion);
+  }
+}
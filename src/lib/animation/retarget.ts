@@ -0,0 +1,150 @@
+/**
+ * Clip Loading & Retargeting
+ * Loads VRMA or plain glTF animation files and rewrites their tracks onto a VRM's normalized
+ * humanoid bones, so one clip plays on any model whatever its rig's rest pose
+ */
+
+import * as THREE from 'three';
+import { GLTF, GLTFLoader, GLTFParser } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRM, VRMHumanBoneList, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+/**
+ * The rig a clip was authored on: its humanoid bones at rest, by bone name
+ */
+export interface SourceAnimation {
+  clips: THREE.AnimationClip[];
+  bones: Map<VRMHumanBoneName, THREE.Object3D>;
+}
+
+// Node names of common glTF rigs (Mixamo and friends), lower-cased with prefixes stripped
+const BONE_ALIASES: Record<string, VRMHumanBoneName> = {
+  hips: 'hips', pelvis: 'hips',
+  spine: 'spine', spine1: 'chest', spine2: 'upperChest', chest: 'chest', upperchest: 'upperChest',
+  neck: 'neck', head: 'head',
+  leftshoulder: 'leftShoulder', leftarm: 'leftUpperArm', leftforearm: 'leftLowerArm', lefthand: 'leftHand',
+  rightshoulder: 'rightShoulder', rightarm: 'rightUpperArm', rightforearm: 'rightLowerArm', righthand: 'rightHand',
+  leftupleg: 'leftUpperLeg', leftleg: 'leftLowerLeg', leftfoot: 'leftFoot', lefttoebase: 'leftToes',
+  rightupleg: 'rightUpperLeg', rightleg: 'rightLowerLeg', rightfoot: 'rightFoot', righttoebase: 'rightToes',
+};
+
+const BONES_BY_NAME = new Map<string, VRMHumanBoneName>(VRMHumanBoneList.map(bone => [bone.toLowerCase(), bone]));
+
+/**
+ * Humanoid bone a glTF node name stands for, if any
+ */
+function boneForNodeName(name: string): VRMHumanBoneName | undefined {
+  const key = name.replace(/^.*[:|]/, '').replace(/^mixamorig_?/i, '').replace(/[\s_.-]/g, '').toLowerCase();
+  return BONES_BY_NAME.get(key) ?? BONE_ALIASES[key];
+}
+
+interface VRMAnimationExtension {
+  humanoid?: { humanBones?: Partial<Record<VRMHumanBoneName, { node: number }>> };
+}
+
+// Humanoid bones declared by a VRMA file's VRMC_vrm_animation extension
+const VRMA_BONES = Symbol('vrmaBones');
+type ParsedGLTF = GLTF & { [VRMA_BONES]?: Map<VRMHumanBoneName, THREE.Object3D> };
+
+class VRMAnimationLoaderPlugin {
+  readonly name = 'VRMC_vrm_animation';
+
+  constructor(private parser: GLTFParser) {}
+
+  async afterRoot(gltf: ParsedGLTF): Promise<void> {
+    const extension = this.parser.json.extensions?.VRMC_vrm_animation as VRMAnimationExtension | undefined;
+    const humanBones = extension?.humanoid?.humanBones;
+    if (!humanBones) return;
+
+    const bones = new Map<VRMHumanBoneName, THREE.Object3D>();
+    await Promise.all(Object.entries(humanBones).map(async ([bone, entry]) => {
+      if (!entry) return;
+      const node = await this.parser.getDependency('node', entry.node) as THREE.Object3D;
+      bones.set(bone as VRMHumanBoneName, node);
+    }));
+    gltf[VRMA_BONES] = bones;
+  }
+}
+
+/**
+ * Load a .vrma or .glb/.gltf file with its clips and the humanoid bones they move
+ */
+export async function loadSourceAnimation(url: string): Promise<SourceAnimation> {
+  const loader = new GLTFLoader();
+  loader.register(parser => new VRMAnimationLoaderPlugin(parser));
+  const gltf = await loader.loadAsync(url) as ParsedGLTF;
+  if (gltf.animations.length === 0) throw new Error(`${url} has no animation clips`);
+
+  let bones = gltf[VRMA_BONES];
+  if (!bones) {
+    // Plain glTF: recognise the rig from its node names
+    bones = new Map();
+    gltf.scene.traverse((node) => {
+      const bone = boneForNodeName(node.name);
+      if (bone && !bones!.has(bone)) bones!.set(bone, node);
+    });
+  }
+  if (!bones.has('hips')) throw new Error(`${url} has no humanoid rig to retarget from`);
+  gltf.scene.updateMatrixWorld(true);
+  return { clips: gltf.animations, bones };
+}
+
+/**
+ * Rewrite a clip's rotation tracks, and the hips' position, onto `vrm`'s normalized bones
+ */
+export function retargetClip(source: SourceAnimation, clip: THREE.AnimationClip, vrm: VRM): THREE.AnimationClip | null {
+  const humanoid = vrm.humanoid;
+  if (!humanoid) return null;
+
+  const boneOfNode = new Map<string, VRMHumanBoneName>();
+  for (const [bone, node] of source.bones) {
+    boneOfNode.set(node.name, bone);
+    boneOfNode.set(node.uuid, bone);
+  }
+
+  // VRM 0.x models are turned around to face the camera, so mirror the motion with them
+  const isVRM0 = vrm.meta?.metaVersion === '0';
+  const sourceHips = source.bones.get('hips')!.getWorldPosition(new THREE.Vector3());
+  const targetHipsY = humanoid.normalizedRestPose.hips?.position?.[1];
+  const hipsScale = targetHipsY && sourceHips.y > 0 ? targetHipsY / sourceHips.y : 1;
+
+  const restWorld = new THREE.Quaternion();
+  const parentRestWorld = new THREE.Quaternion();
+  const key = new THREE.Quaternion();
+  const position = new THREE.Vector3();
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  for (const track of clip.tracks) {
+    const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(track.name);
+    const bone = boneOfNode.get(nodeName);
+    const sourceNode = bone && source.bones.get(bone);
+    const target = bone && humanoid.getNormalizedBoneNode(bone);
+    if (!sourceNode || !target) continue;
+
+    if (propertyName === 'quaternion') {
+      // Express each key relative to the source rest pose, in the normalized rig's world-aligned frame
+      sourceNode.getWorldQuaternion(restWorld).invert();
+      if (sourceNode.parent) sourceNode.parent.getWorldQuaternion(parentRestWorld);
+      else parentRestWorld.identity();
+
+      const values = new Float32Array(track.values.length);
+      for (let i = 0; i < track.values.length; i += 4) {
+        key.fromArray(track.values, i).premultiply(parentRestWorld).multiply(restWorld);
+        if (isVRM0) key.set(-key.x, key.y, -key.z, key.w);
+        key.toArray(values, i);
+      }
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${target.uuid}.quaternion`, Array.from(track.times), Array.from(values)));
+    } else if (propertyName === 'position' && bone === 'hips') {
+      const values = new Float32Array(track.values.length);
+      for (let i = 0; i < track.values.length; i += 3) {
+        position.fromArray(track.values, i);
+        if (sourceNode.parent) position.applyMatrix4(sourceNode.parent.matrixWorld);
+        position.multiplyScalar(hipsScale);
+        if (isVRM0) position.set(-position.x, position.y, -position.z);
+        position.toArray(values, i);
+      }
+      tracks.push(new THREE.VectorKeyframeTrack(`${target.uuid}.position`, Array.from(track.times), Array.from(values)));
+    }
+  }
+
+  return tracks.length > 0 ? new THREE.AnimationClip(clip.name, clip.duration, tracks) : null;
+}
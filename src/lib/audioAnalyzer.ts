@@ -11,6 +11,7 @@ export class AudioAnalyzer {
   private isInitialized = false;
   private animationFrameId: number | null = null;
   private onLevelChange: ((level: number) => void) | null = null;
+  private visemeClassifier = new VisemeClassifier();
 
   constructor() {
     // Defer AudioContext creation until user interaction
@@ -25,8 +26,9 @@ export class AudioAnalyzer {
     try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 256;
-      this.analyser.smoothingTimeConstant = 0.8;
+      // Fine enough (about 45 Hz per bin) to tell formants apart
+      this.analyser.fftSize = 1024;
+      this.analyser.smoothingTimeConstant = 0.5;
       
       const bufferLength = this.analyser.frequencyBinCount;
       this.dataArray = new Uint8Array(bufferLength);
@@ -103,6 +105,29 @@ export class AudioAnalyzer {
     return average / 255; // Normalize to 0-1
   }
 
+  /**
+   * True once the context exists and is actually running, so routed audio will be heard
+   */
+  get isRunning(): boolean {
+    return this.isInitialized && this.audioContext?.state === 'running';
+  }
+
+  /**
+   * Classify the current frame into smoothed viseme weights
+   */
+  getVisemes(): VisemeWeights {
+    const data = this.getFrequencyData();
+    if (!data || !this.audioContext || !this.analyser) return { ...CLOSED_MOUTH };
+    return this.visemeClassifier.update(extractSpectralFeatures(data, this.audioContext.sampleRate / this.analyser.fftSize));
+  }
+
+  /**
+   * Forget the vowel and weights carried over from the previous sentence
+   */
+  resetVisemes(): void {
+    this.visemeClassifier.reset();
+  }
+
   /**
    * Get frequency data for visualization
    */
@@ -158,17 +183,136 @@ export class AudioAnalyzer {
 }
 
 /**
- * Viseme mapping for lip-sync
- * Maps audio levels to mouth shapes
+ * Mouth shapes for lip-sync: the five Japanese vowels plus closed lips
+ */
+export type Viseme = 'a' | 'i' | 'u' | 'e' | 'o' | 'closed';
+
+export type VisemeWeights = Record<Viseme, number>;
+
+export const VISEMES: Viseme[] = ['a', 'i', 'u', 'e', 'o', 'closed'];
+
+export const CLOSED_MOUTH: VisemeWeights = { a: 0, i: 0, u: 0, e: 0, o: 0, closed: 1 };
+
+type Vowel = Exclude<Viseme, 'closed'>;
+
+export interface SpectralFeatures {
+  // Voice-band loudness, 0-1
+  level: number;
+  // Strongest peak in the first and second formant ranges, in Hz
+  f1: number;
+  f2: number;
+}
+
+// Typical first and second formants of Japanese vowels (adult female voice), in Hz
+const VOWEL_FORMANTS: Record<Vowel, [number, number]> = {
+  a: [850, 1450],
+  i: [350, 2700],
+  u: [380, 1600],
+  e: [550, 2300],
+  o: [520, 950],
+};
+
+/**
+ * Formant-like features from one byte frequency frame; `binHz` is the width of one bin
+ */
+export function extractSpectralFeatures(data: Uint8Array, binHz: number): SpectralFeatures {
+  const bin = (hz: number) => Math.min(data.length - 1, Math.max(1, Math.round(hz / binHz)));
+  // Three-bin average so a single noisy bin can't win
+  const smoothed = (i: number) => (data[i - 1] + data[i] * 2 + (data[i + 1] ?? data[i])) / 4;
+  const peak = (fromHz: number, toHz: number) => {
+    let best = bin(fromHz);
+    for (let i = bin(fromHz); i <= bin(toHz); i++) {
+      if (smoothed(i) > smoothed(best)) best = i;
+    }
+    return best * binHz;
+  };
+
+  let sum = 0;
+  const from = bin(300);
+  const to = bin(3400);
+  for (let i = from; i <= to; i++) sum += data[i];
+
+  const f1 = peak(250, 1000);
+  const f2 = peak(Math.max(f1 + 350, 800), 3200);
+  return { level: sum / (to - from + 1) / 255, f1, f2 };
+}
+
+/**
+ * Turns spectral frames into smoothed viseme weights; keeps the current vowel until another
+ * one clearly wins, so the mouth doesn't flicker between shapes
  */
-export type VisemeType = 'closed' | 'aah' | 'eeh' | 'ooh' | 'neutral';
-
-export function getVisemeFromLevel(level: number): VisemeType {
-  if (level < 0.1) return 'closed';
-  if (level < 0.3) return 'neutral';
-  if (level < 0.5) return 'eeh';
-  if (level < 0.7) return 'aah';
-  return 'ooh';
+export class VisemeClassifier {
+  private weights: VisemeWeights = { ...CLOSED_MOUTH };
+  private current: Vowel = 'a';
+  private challenger: Vowel | null = null;
+  private challengerFrames = 0;
+
+  constructor(private options = {
+    // Level below which the lips stay shut
+    gate: 0.08,
+    gain: 1.8,
+    // Probability lead a new vowel needs to take over at once
+    margin: 0.15,
+    // Frames a new vowel must keep winning to take over without that lead
+    holdFrames: 3,
+    attack: 0.5,
+    release: 0.25,
+  }) {}
+
+  /**
+   * Probability of each vowel given the formants, from distance in log-frequency space
+   */
+  static vowelProbabilities({ f1, f2 }: SpectralFeatures): Record<Vowel, number> {
+    const scores = {} as Record<Vowel, number>;
+    let total = 0;
+    for (const [vowel, [p1, p2]] of Object.entries(VOWEL_FORMANTS) as [Vowel, [number, number]][]) {
+      const d1 = Math.log2(f1 / p1);
+      const d2 = Math.log2(f2 / p2);
+      // F1 separates open from close vowels and is the more reliable estimate
+      const score = Math.exp(-(d1 * d1 * 1.5 + d2 * d2) / 0.18);
+      scores[vowel] = score;
+      total += score;
+    }
+    for (const vowel of Object.keys(scores) as Vowel[]) {
+      scores[vowel] = total > 0 ? scores[vowel] / total : 0.2;
+    }
+    return scores;
+  }
+
+  update(features: SpectralFeatures): VisemeWeights {
+    const { gate, gain, margin, holdFrames, attack, release } = this.options;
+    const openness = features.level * gain < gate ? 0 : getMouthOpenness((features.level * gain - gate) / (1 - gate));
+
+    if (openness > 0) {
+      const probabilities = VisemeClassifier.vowelProbabilities(features);
+      const best = (Object.keys(probabilities) as Vowel[]).reduce((a, b) => (probabilities[b] > probabilities[a] ? b : a));
+      if (best === this.current) {
+        this.challenger = null;
+        this.challengerFrames = 0;
+      } else {
+        this.challengerFrames = best === this.challenger ? this.challengerFrames + 1 : 1;
+        this.challenger = best;
+        if (probabilities[best] - probabilities[this.current] > margin || this.challengerFrames >= holdFrames) {
+          this.current = best;
+          this.challenger = null;
+          this.challengerFrames = 0;
+        }
+      }
+    }
+
+    for (const viseme of VISEMES) {
+      const target = viseme === 'closed' ? 1 - openness : viseme === this.current ? openness : 0;
+      const weight = this.weights[viseme];
+      this.weights[viseme] = weight + (target - weight) * (target > weight ? attack : release);
+    }
+    return { ...this.weights };
+  }
+
+  reset(): void {
+    this.weights = { ...CLOSED_MOUTH };
+    this.challenger = null;
+    this.challengerFrames = 0;
+  }
 }
 
 /**
@@ -0,0 +1,213 @@
+/**
+ * Character Card Format
+ * Reads community Character Card V1/V2/V3 JSON and writes V2, with our voice and look kept under an extension
+ */
+
+import { z } from 'zod';
+import { EmotionType } from '@/store/appStore';
+import { DEFAULT_EMOTION_PRESETS, VoicePreset } from '../ttsService';
+import { ExpressionWeights } from '../expressionMixer';
+import { MoodPoint } from '../moodService';
+import { AvatarColors, CharacterCard } from './types';
+
+// Namespace of our data inside `data.extensions`; other tools leave it alone
+export const EXTENSION_KEY = 'miku_companion';
+
+export const DEFAULT_AVATAR_COLORS: AvatarColors = {
+  hair: '#00d4d4',
+  skin: '#ffe4d0',
+  eyes: '#00d4d4',
+  mouth: '#ff6b9d',
+  outfit: '#1a1a2e',
+  outfitAccent: '#00d4d4',
+};
+
+export const voicePresetSchema = z.object({
+  rate: z.number().min(0.1).max(10),
+  pitch: z.number().min(0).max(2),
+  volume: z.number().min(0).max(1),
+});
+
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'Colors must be #rrggbb');
+
+export const avatarColorsSchema = z.object({
+  hair: colorSchema,
+  skin: colorSchema,
+  eyes: colorSchema,
+  mouth: colorSchema,
+  outfit: colorSchema,
+  outfitAccent: colorSchema,
+});
+
+const expressionWeight = z.number().min(0).max(1).optional();
+const expressionWeightsSchema = z.object({
+  happy: expressionWeight,
+  angry: expressionWeight,
+  sad: expressionWeight,
+  relaxed: expressionWeight,
+  surprised: expressionWeight,
+});
+
+// Every field is optional so cards written by older versions or by hand still load
+const companionExtensionSchema = z.object({
+  voice: z.object({
+    voiceName: z.string().min(1).optional(),
+    lang: z.string().min(2).optional(),
+    emotions: z.record(z.string(), voicePresetSchema).default({}),
+  }).default({}),
+  appearance: z.object({
+    colors: avatarColorsSchema.partial().default({}),
+    vrmPath: z.string().min(1).optional(),
+    // VRM expression weights per emotion, replacing the defaults for the emotions listed
+    expressions: z.record(z.string(), expressionWeightsSchema).optional(),
+    // VRMA/glTF clip URLs by gesture name, over the built-in gestures
+    animations: z.record(z.string(), z.string().min(1)).optional(),
+  }).default({}),
+  // Resting valence/arousal, each from -1 to 1
+  mood: z.object({
+    valence: z.number().min(-1).max(1),
+    arousal: z.number().min(-1).max(1),
+  }).optional(),
+  // Offline replies come only from the packs listed here
+  responsePacks: z.array(z.string().min(1)).default([]),
+});
+
+// Shared by V1 cards (flat) and the `data` object of V2/V3 cards
+const cardDataSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().default(''),
+  personality: z.string().default(''),
+  scenario: z.string().default(''),
+  first_mes: z.string().default(''),
+  mes_example: z.string().default(''),
+  creator_notes: z.string().default(''),
+  system_prompt: z.string().default(''),
+  post_history_instructions: z.string().default(''),
+  alternate_greetings: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  creator: z.string().default(''),
+  character_version: z.string().default(''),
+  extensions: z.record(z.string(), z.unknown()).default({}),
+  character_book: z.unknown().optional(),
+});
+
+const versionedCardSchema = z.object({
+  spec: z.enum(['chara_card_v2', 'chara_card_v3']),
+  spec_version: z.string(),
+  data: cardDataSchema,
+});
+
+type CardData = z.output<typeof cardDataSchema>;
+
+export interface CharacterCardV2 {
+  spec: 'chara_card_v2';
+  spec_version: '2.0';
+  data: Omit<CardData, 'character_book'> & { character_book?: unknown };
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+// V1 cards use <BOT> and <USER> where later versions use macros
+const normalizeMacros = (text: string) => text.replace(/<BOT>/gi, '{{char}}').replace(/<USER>/gi, '{{user}}');
+
+function readExtension(extensions: Record<string, unknown>, source: string) {
+  const result = companionExtensionSchema.safeParse(extensions[EXTENSION_KEY] ?? {});
+  if (result.success) return result.data;
+  // A broken extension should not cost the user the persona itself
+  console.warn(`[Characters] Ignoring invalid ${EXTENSION_KEY} data in ${source}:`, formatIssues(result.error));
+  return companionExtensionSchema.parse({});
+}
+
+/**
+ * Validate a parsed card file (V1, V2 or V3 JSON); throws with every problem listed
+ */
+export function parseCharacterCard(raw: unknown, source: string = 'character card'): CharacterCard {
+  const isVersioned = typeof raw === 'object' && raw !== null && 'spec' in raw;
+  const result = isVersioned
+    ? versionedCardSchema.transform(card => card.data).safeParse(raw)
+    : cardDataSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid ${source}: ${formatIssues(result.error)}`);
+  }
+
+  const data = result.data;
+  const { [EXTENSION_KEY]: _ours, ...otherExtensions } = data.extensions;
+  const companion = readExtension(data.extensions, source);
+  const emotions = Object.fromEntries(
+    (Object.keys(DEFAULT_EMOTION_PRESETS) as EmotionType[]).map(emotion => [
+      emotion,
+      companion.voice.emotions[emotion] ?? DEFAULT_EMOTION_PRESETS[emotion],
+    ])
+  ) as Record<EmotionType, VoicePreset>;
+  const expressions = companion.appearance.expressions && Object.fromEntries(
+    Object.entries(companion.appearance.expressions).filter(([emotion]) => emotion in DEFAULT_EMOTION_PRESETS)
+  ) as Partial<Record<EmotionType, ExpressionWeights>>;
+  const now = new Date();
+
+  return {
+    id: crypto.randomUUID(),
+    name: data.name,
+    description: normalizeMacros(data.description),
+    personality: normalizeMacros(data.personality),
+    scenario: normalizeMacros(data.scenario),
+    systemPrompt: normalizeMacros(data.system_prompt),
+    postHistoryInstructions: normalizeMacros(data.post_history_instructions),
+    greeting: normalizeMacros(data.first_mes),
+    alternateGreetings: data.alternate_greetings.map(normalizeMacros),
+    exampleDialogue: normalizeMacros(data.mes_example),
+    creator: data.creator,
+    creatorNotes: data.creator_notes,
+    version: data.character_version,
+    tags: data.tags,
+    voice: { voiceName: companion.voice.voiceName, lang: companion.voice.lang, emotions },
+    appearance: {
+      colors: { ...DEFAULT_AVATAR_COLORS, ...companion.appearance.colors },
+      vrmPath: companion.appearance.vrmPath,
+      expressions,
+      animations: companion.appearance.animations,
+    },
+    // Non-strict zod inference marks the validated fields optional
+    mood: companion.mood as MoodPoint | undefined,
+    responsePacks: companion.responsePacks,
+    extensions: otherExtensions,
+    characterBook: data.character_book,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * The card as Character Card V2 JSON
+ */
+export function toCharacterCardV2(card: CharacterCard): CharacterCardV2 {
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: card.name,
+      description: card.description,
+      personality: card.personality,
+      scenario: card.scenario,
+      first_mes: card.greeting,
+      mes_example: card.exampleDialogue,
+      creator_notes: card.creatorNotes,
+      system_prompt: card.systemPrompt,
+      post_history_instructions: card.postHistoryInstructions,
+      alternate_greetings: card.alternateGreetings,
+      tags: card.tags,
+      creator: card.creator,
+      character_version: card.version,
+      extensions: {
+        ...card.extensions,
+        [EXTENSION_KEY]: {
+          voice: card.voice,
+          appearance: card.appearance,
+          mood: card.mood,
+          responsePacks: card.responsePacks,
+        },
+      },
+      ...(card.characterBook !== undefined && { character_book: card.characterBook }),
+    },
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Character Service
+ * Bundled and user character cards, the active companion, and card import/export
+ */
+
+import { openDatabase, promisify, STORES, transactionDone } from '../db';
+import { parseCharacterCard, toCharacterCardV2 } from './cardFormat';
+import { embedCardInPng, extractCardFromPng, isPng } from './png';
+import { CharacterCard } from './types';
+
+interface CharacterRecord extends Omit<CharacterCard, 'createdAt' | 'updatedAt'> {
+  createdAt: number;
+  updatedAt: number;
+}
+
+const ACTIVE_CHARACTER_KEY = 'miku-companion:active-character';
+const DEFAULT_CHARACTER_ID = import.meta.env.VITE_DEFAULT_CHARACTER || 'miku';
+const AVATAR_SIZE = 512;
+
+const toCard = (record: CharacterRecord): CharacterCard => ({
+  ...record,
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt),
+});
+
+const toRecord = (card: CharacterCard): CharacterRecord => ({
+  ...card,
+  createdAt: card.createdAt.getTime(),
+  updatedAt: card.updatedAt.getTime(),
+});
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'character';
+
+function readActiveId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_CHARACTER_KEY) ?? DEFAULT_CHARACTER_ID;
+  } catch {
+    return DEFAULT_CHARACTER_ID;
+  }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Plain avatar in the character's colors, for PNG exports of cards without artwork
+ */
+function drawPlaceholderAvatar(card: CharacterCard): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = AVATAR_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas not supported'));
+
+  const { colors } = card.appearance;
+  const gradient = ctx.createLinearGradient(0, 0, 0, AVATAR_SIZE);
+  gradient.addColorStop(0, colors.outfit);
+  gradient.addColorStop(1, colors.outfitAccent);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+
+  ctx.fillStyle = colors.hair;
+  ctx.beginPath();
+  ctx.arc(AVATAR_SIZE / 2, AVATAR_SIZE / 2, AVATAR_SIZE * 0.32, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = colors.skin;
+  ctx.font = `bold ${AVATAR_SIZE * 0.3}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText([...card.name][0]?.toUpperCase() ?? '?', AVATAR_SIZE / 2, AVATAR_SIZE / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render avatar'))), 'image/png');
+  });
+}
+
+export class CharacterService {
+  private cards: CharacterCard[];
+  private activeId = readActiveId();
+  private listeners = new Set<() => void>();
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(private bundled: CharacterCard[]) {
+    this.cards = [...bundled];
+  }
+
+  /**
+   * Load saved cards (once); saved copies of bundled cards replace them
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const db = await openDatabase();
+          const tx = db.transaction(STORES.characters, 'readonly');
+          const records = await promisify<CharacterRecord[]>(tx.objectStore(STORES.characters).getAll());
+          const saved = records.map(toCard);
+          // Cards saved before loading finished take precedence
+          const merged = [...this.cards];
+          for (const card of saved) {
+            const index = merged.findIndex(c => c.id === card.id);
+            if (index < 0) merged.push(card);
+            else if (this.bundled.includes(merged[index])) merged[index] = card;
+          }
+          this.cards = merged;
+          this.emit();
+        } catch (error) {
+          console.warn('[Characters] Saved characters unavailable:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Snapshot of all cards; identity changes on every update
+   */
+  getAll(): CharacterCard[] {
+    return this.cards;
+  }
+
+  get(id: string): CharacterCard | undefined {
+    return this.cards.find(c => c.id === id);
+  }
+
+  /**
+   * The companion currently chatting; falls back to the first card if the chosen one is gone
+   */
+  get active(): CharacterCard {
+    return this.get(this.activeId) ?? this.get(DEFAULT_CHARACTER_ID) ?? this.cards[0];
+  }
+
+  setActive(id: string): void {
+    if (!this.get(id) || id === this.activeId) return;
+    this.activeId = id;
+    try {
+      localStorage.setItem(ACTIVE_CHARACTER_KEY, id);
+    } catch (error) {
+      console.warn('[Characters] Could not remember the active character:', error);
+    }
+    this.emit();
+  }
+
+  /**
+   * Add or update a card
+   */
+  async save(card: CharacterCard): Promise<CharacterCard> {
+    const saved: CharacterCard = { ...card, updatedAt: new Date() };
+    const exists = this.cards.some(c => c.id === card.id);
+    this.cards = exists ? this.cards.map(c => c.id === card.id ? saved : c) : [...this.cards, saved];
+    this.emit();
+
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.characters, 'readwrite');
+      tx.objectStore(STORES.characters).put(toRecord(saved));
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('[Characters] Failed to save character:', error);
+    }
+    return saved;
+  }
+
+  /**
+   * Delete a card; a bundled card is restored to its shipped version instead
+   */
+  async remove(id: string): Promise<void> {
+    const original = this.bundled.find(b => b.id === id);
+    this.cards = original
+      ? this.cards.map(c => c.id === id ? original : c)
+      : this.cards.filter(c => c.id !== id);
+    this.emit();
+
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.characters, 'readwrite');
+      tx.objectStore(STORES.characters).delete(id);
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('[Characters] Failed to delete character:', error);
+    }
+  }
+
+  /**
+   * Import a Character Card from a .json file or a PNG with the card embedded
+   */
+  async importFile(file: File): Promise<CharacterCard> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const png = isPng(bytes);
+    const raw = png ? extractCardFromPng(bytes) : JSON.parse(new TextDecoder().decode(bytes));
+    const card = parseCharacterCard(raw, file.name);
+    if (png) card.avatar = await blobToDataUrl(file);
+    return this.save(card);
+  }
+
+  /**
+   * The card as Character Card V2 JSON
+   */
+  exportJson(card: CharacterCard): { blob: Blob; filename: string } {
+    const json = JSON.stringify(toCharacterCardV2(card), null, 2);
+    return { blob: new Blob([json], { type: 'application/json' }), filename: `${fileSlug(card.name)}.json` };
+  }
+
+  /**
+   * The card embedded in its avatar (or a generated one) as a V2 PNG card
+   */
+  async exportPng(card: CharacterCard): Promise<{ blob: Blob; filename: string }> {
+    const image = card.avatar ? await (await fetch(card.avatar)).blob() : await drawPlaceholderAvatar(card);
+    const bytes = embedCardInPng(new Uint8Array(await image.arrayBuffer()), toCharacterCardV2(card));
+    return { blob: new Blob([bytes], { type: 'image/png' }), filename: `${fileSlug(card.name)}.png` };
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function loadBundledCards(): CharacterCard[] {
+  // Every JSON file in src/data/characters ships with the app; the file name is the card id
+  const files = import.meta.glob<unknown>('../../data/characters/*.json', { eager: true, import: 'default' });
+  const cards: CharacterCard[] = [];
+  for (const [path, raw] of Object.entries(files)) {
+    try {
+      const id = path.split('/').pop()!.replace(/\.json$/, '');
+      const card = parseCharacterCard(raw, `character card ${path}`);
+      cards.push({ ...card, id, builtIn: true, createdAt: new Date(0), updatedAt: new Date(0) });
+    } catch (error) {
+      console.warn('[Characters] Skipping bundled character:', error);
+    }
+  }
+  if (cards.length === 0) {
+    throw new Error('No bundled character cards found in src/data/characters');
+  }
+  return cards;
+}
+
+export const characterService = new CharacterService(loadBundledCards());
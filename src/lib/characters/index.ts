@@ -0,0 +1,18 @@
+/**
+ * Characters
+ * Editable companion cards compatible with the community Character Card format
+ */
+
+export type { AvatarColors, CharacterAppearance, CharacterCard } from './types';
+export type { CharacterCardV2 } from './cardFormat';
+export {
+  avatarColorsSchema,
+  DEFAULT_AVATAR_COLORS,
+  EXTENSION_KEY,
+  parseCharacterCard,
+  toCharacterCardV2,
+  voicePresetSchema,
+} from './cardFormat';
+export { embedCardInPng, extractCardFromPng } from './png';
+export { buildCharacterPrompt, pickGreeting, substituteMacros } from './persona';
+export { CharacterService, characterService } from './characterService';
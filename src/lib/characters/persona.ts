@@ -0,0 +1,52 @@
+/**
+ * Persona Prompt
+ * Turns a character card into the system prompt and greeting the chat engines use
+ */
+
+import { CharacterCard } from './types';
+
+// What {{user}} becomes before Miku has learned the user's name
+const DEFAULT_USER_NAME = 'Friend';
+
+/**
+ * Replace the Character Card macros ({{char}}, {{user}}) in a card field
+ */
+export function substituteMacros(text: string, charName: string, userName: string = DEFAULT_USER_NAME): string {
+  return text.replace(/\{\{char\}\}/gi, charName).replace(/\{\{user\}\}/gi, userName);
+}
+
+// `<START>` marks the beginning of each sample exchange
+const formatExamples = (exampleDialogue: string) =>
+  exampleDialogue
+    .split(/^\s*<START>\s*$/im)
+    .map(example => example.trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+/**
+ * System prompt describing the character, with macros filled in
+ */
+export function buildCharacterPrompt(card: CharacterCard, userName?: string): string {
+  const fill = (text: string) => substituteMacros(text.trim(), card.name, userName);
+  const examples = formatExamples(card.exampleDialogue);
+
+  return [
+    `You are ${card.name}.`,
+    fill(card.description),
+    card.personality.trim() && `PERSONALITY:\n${fill(card.personality)}`,
+    card.scenario.trim() && `SCENARIO:\n${fill(card.scenario)}`,
+    fill(card.systemPrompt),
+    examples && `EXAMPLE DIALOGUE (shows ${card.name}'s style; not part of this conversation):\n${fill(examples)}`,
+    fill(card.postHistoryInstructions),
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Opening line for a new conversation; alternates are picked at random
+ */
+export function pickGreeting(card: CharacterCard, userName?: string): string {
+  const greetings = [card.greeting, ...card.alternateGreetings].filter(greeting => greeting.trim());
+  if (greetings.length === 0) return '';
+  const greeting = greetings[Math.floor(Math.random() * greetings.length)];
+  return substituteMacros(greeting.trim(), card.name, userName);
+}
@@ -0,0 +1,110 @@
+/**
+ * PNG Card Embedding
+ * Character cards travel inside PNG avatars as base64 JSON in a `chara` (V2) or `ccv3` (V3) tEXt chunk
+ */
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const V2_KEYWORD = 'chara';
+const V3_KEYWORD = 'ccv3';
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// tEXt chunks are Latin-1, which maps one byte to one char code
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  // Sliced so large cards don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+}
+
+const fromLatin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+export const isPng = (bytes: Uint8Array) => SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new Error(`Truncated PNG chunk ${type}`);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function writeChunks(chunks: PngChunk[]): Uint8Array {
+  const size = SIGNATURE.length + chunks.reduce((sum, chunk) => sum + chunk.data.length + 12, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(SIGNATURE);
+
+  let offset = SIGNATURE.length;
+  for (const chunk of chunks) {
+    const typeAndData = new Uint8Array(4 + chunk.data.length);
+    typeAndData.set(fromLatin1(chunk.type));
+    typeAndData.set(chunk.data, 4);
+
+    view.setUint32(offset, chunk.data.length);
+    bytes.set(typeAndData, offset + 4);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(typeAndData));
+    offset += chunk.data.length + 12;
+  }
+  return bytes;
+}
+
+function readText(chunk: PngChunk): { keyword: string; text: string } | null {
+  if (chunk.type !== 'tEXt') return null;
+  const separator = chunk.data.indexOf(0);
+  if (separator < 0) return null;
+  return { keyword: latin1(chunk.data.subarray(0, separator)), text: latin1(chunk.data.subarray(separator + 1)) };
+}
+
+/**
+ * The card JSON embedded in a PNG, preferring V3 data when both are present
+ */
+export function extractCardFromPng(bytes: Uint8Array): unknown {
+  const texts = readChunks(bytes).map(readText).filter(text => text !== null);
+  const embedded = texts.find(t => t.keyword === V3_KEYWORD) ?? texts.find(t => t.keyword === V2_KEYWORD);
+  if (!embedded) throw new Error('This PNG has no character card embedded');
+
+  const json = new TextDecoder().decode(fromLatin1(atob(embedded.text.trim())));
+  return JSON.parse(json);
+}
+
+/**
+ * A copy of the PNG carrying the card JSON; any card it already held is replaced
+ */
+export function embedCardInPng(bytes: Uint8Array, card: unknown): Uint8Array {
+  const chunks = readChunks(bytes).filter(chunk => {
+    const keyword = readText(chunk)?.keyword;
+    return keyword !== V2_KEYWORD && keyword !== V3_KEYWORD;
+  });
+  const end = chunks.findIndex(chunk => chunk.type === 'IEND');
+  if (end < 0) throw new Error('PNG is missing its IEND chunk');
+
+  const text = `${V2_KEYWORD}\0${btoa(latin1(new TextEncoder().encode(JSON.stringify(card))))}`;
+  chunks.splice(end, 0, { type: 'tEXt', data: fromLatin1(text) });
+  return writeChunks(chunks);
+}
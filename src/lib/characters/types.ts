@@ -0,0 +1,67 @@
+/**
+ * Character Types
+ * The companion card model shared by the prompt, voice, renderer and offline engine
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { VoiceProfile } from '../ttsService';
+import { ExpressionWeights } from '../expressionMixer';
+import { MoodPoint } from '../moodService';
+
+export interface AvatarColors {
+  hair: string;
+  skin: string;
+  eyes: string;
+  mouth: string;
+  outfit: string;
+  outfitAccent: string;
+}
+
+export interface CharacterAppearance {
+  // Colors of the built-in procedural model
+  colors: AvatarColors;
+  // URL of a VRM model to use instead, when the renderer supports it
+  vrmPath?: string;
+  // Per-emotion VRM expression weights, over the defaults
+  expressions?: Partial<Record<EmotionType, ExpressionWeights>>;
+  // URLs of VRMA or glTF animation clips by gesture name, e.g. { wave: '/animations/wave.vrma' }
+  animations?: Record<string, string>;
+}
+
+/**
+ * Everything that makes a companion: persona for the model, voice, look and offline replies
+ * Text fields may use the {{char}} and {{user}} macros from the Character Card format
+ */
+export interface CharacterCard {
+  id: string;
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  // Extra instructions placed after the persona (Character Card `system_prompt`)
+  systemPrompt: string;
+  postHistoryInstructions: string;
+  greeting: string;
+  alternateGreetings: string[];
+  // `<START>`-separated sample exchanges (Character Card `mes_example`)
+  exampleDialogue: string;
+  creator: string;
+  creatorNotes: string;
+  version: string;
+  tags: string[];
+  voice: VoiceProfile;
+  appearance: CharacterAppearance;
+  // Valence/arousal the mood drifts back to between turns
+  mood?: MoodPoint;
+  // Response pack ids for the offline engine; empty means generic replies only
+  responsePacks: string[];
+  // PNG data URL, kept so PNG exports reuse the original artwork
+  avatar?: string;
+  // Extensions from other tools, kept for round-tripping
+  extensions: Record<string, unknown>;
+  characterBook?: unknown;
+  // Ships with the app; removing it restores the bundled version
+  builtIn?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,311 @@
+/**
+ * Context Builder
+ * Fits chat history into the model's context window, folding older turns into a running summary
+ */
+
+import { substituteMacros } from './characters';
+import { ChatMessage } from './conversation/types';
+import { conversationRepository, ConversationSummary, MessageCursor } from './conversationRepository';
+import { LLMProvider, ProviderConfig, ProviderMessage, ProviderType } from './llm';
+import { SentenceSegmenter } from './sentenceSegmenter';
+import { tokenize } from './tokenize';
+
+export interface BuildContextOptions {
+  systemPrompt: string;
+  // Whose notes the summary is; fills {{char}} in the summary request
+  characterName: string;
+  config: ProviderConfig;
+  // Writes the summary when the backend is a real model; the local engine summarizes extractively
+  provider: LLMProvider;
+  // Summaries are cached and persisted per conversation; without one they are rebuilt on every call
+  conversationId?: string;
+  abortSignal?: AbortSignal;
+}
+
+// Rough characters per token for each backend's tokenizer family
+const CHARS_PER_TOKEN: Record<ProviderType, number> = {
+  local: 4,
+  openai: 4,
+  ollama: 3.5,
+  llamacpp: 3.5,
+};
+// Role markers and separators the chat template wraps around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Share of the prompt budget the summary may take
+const SUMMARY_SHARE = 0.2;
+// After folding, recent turns fill only part of the room left, so summaries happen every few turns
+const RECENT_SHARE = 0.6;
+// Page size when reading back persisted turns between the summary and the loaded messages
+const GAP_FETCH_LIMIT = 200;
+const SENTENCE_MAX_LENGTH = 200;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/g;
+
+const SUMMARY_INSTRUCTIONS = (words: number) => `You keep {{char}}'s notes on their conversation with a friend.
+Merge the earlier notes and the new transcript into one summary of at most ${words} words.
+Keep names, facts, plans, feelings and open questions; drop greetings and small talk.
+Call the friend "they" and {{char}} "you". Reply with the summary only.`;
+
+/**
+ * Estimate the tokens a message costs for the given backend
+ * CJK characters count as a token each; everything else by the backend's average
+ */
+export function estimateTokens(text: string, type: ProviderType): number {
+  const cjk = text.match(CJK_CHAR)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / CHARS_PER_TOKEN[type]) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Tokens available for the prompt once the reply is reserved
+ */
+export function promptBudget(config: ProviderConfig): number {
+  return Math.max(config.contextWindow - config.maxTokens, 0);
+}
+
+function sentencesOf(text: string): string[] {
+  const segmenter = new SentenceSegmenter({ maxLength: SENTENCE_MAX_LENGTH });
+  return [...segmenter.push(text), ...segmenter.flush()];
+}
+
+/**
+ * Offline summary: keep the sentences that best cover the recurring topics, in their original order
+ */
+export function extractiveSummary(
+  previous: string,
+  turns: ChatMessage[],
+  maxTokens: number,
+  type: ProviderType
+): string {
+  const candidates = [
+    // Earlier summary lines are already distilled, so they start ahead
+    ...previous.split('\n').filter(Boolean).map(line => ({ line, text: line, boost: 1.2 })),
+    ...turns.flatMap(turn => sentencesOf(turn.content).map(sentence => ({
+      line: `${turn.role === 'user' ? 'They' : 'You'}: ${sentence}`,
+      text: sentence,
+      // What the friend says matters more than Miku's own chatter
+      boost: turn.role === 'user' ? 1.5 : 1,
+    }))),
+  ];
+
+  const terms = candidates.map(candidate => [...new Set(tokenize(candidate.text))]);
+  const frequencies = new Map<string, number>();
+  terms.flat().forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+
+  // Greedy pick: each chosen sentence stops its topics counting for the rest, so the summary stays varied
+  const covered = new Set<string>();
+  const seen = new Set<string>();
+  const remaining = candidates.map((_, index) => index).filter(index => terms[index].length > 0);
+  const chosen: { index: number; line: string }[] = [];
+  let used = 0;
+
+  while (remaining.length > 0) {
+    let best = -1;
+    let bestScore = 0;
+    for (const [position, index] of remaining.entries()) {
+      const gain = terms[index].reduce((sum, term) => sum + (covered.has(term) ? 0 : frequencies.get(term)!), 0);
+      const score = candidates[index].boost * gain / Math.sqrt(terms[index].length);
+      if (score > bestScore) {
+        best = position;
+        bestScore = score;
+      }
+    }
+    if (best < 0) break;
+
+    const [index] = remaining.splice(best, 1);
+    const { line } = candidates[index];
+    const cost = estimateTokens(line, type);
+    if (seen.has(line) || used + cost > maxTokens) continue;
+
+    seen.add(line);
+    terms[index].forEach(term => covered.add(term));
+    chosen.push({ index, line });
+    used += cost;
+  }
+
+  return chosen.sort((a, b) => a.index - b.index).map(entry => entry.line).join('\n');
+}
+
+export class ContextBuilder {
+  private summaries = new Map<string, ConversationSummary | null>();
+
+  /**
+   * Provider messages for the conversation: system prompt (with summary) plus as many recent turns as fit
+   */
+  async build(messages: ChatMessage[], options: BuildContextOptions): Promise<ProviderMessage[]> {
+    const { config, conversationId, systemPrompt } = options;
+    const estimate = (text: string) => estimateTokens(text, config.type);
+
+    let summary = await this.getSummary(conversationId);
+    // Turns already folded into the summary are never sent verbatim again
+    const isNew = (m: ChatMessage) => m.role !== 'system' && (!summary || m.timestamp > summary.coveredUntil);
+    const loaded = messages.filter(m => m.role !== 'system');
+    // After a reload only the latest page is in memory; persisted turns between it and the summary
+    // are sent or summarized like any other
+    const gap = loaded.length > 0 && isNew(loaded[0]) ? await this.loadGap(conversationId, summary, loaded[0]) : [];
+    const turns = [...gap, ...loaded].filter(isNew);
+
+    const budget = promptBudget(config);
+    const fixed = estimate(systemPrompt) + (summary ? estimate(summary.text) : 0);
+    const history = turns.reduce((sum, turn) => sum + estimate(turn.content), 0);
+    if (fixed + history <= budget) return this.compose(systemPrompt, summary, turns);
+
+    const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+    const room = Math.max(budget - estimate(systemPrompt) - summaryBudget, 0) * RECENT_SHARE;
+
+    // Newest turns first until the room is used; the latest turn always goes out
+    let recentCount = 0;
+    let used = 0;
+    while (recentCount < turns.length) {
+      const cost = estimate(turns[turns.length - 1 - recentCount].content);
+      if (recentCount > 0 && used + cost > room) break;
+      used += cost;
+      recentCount++;
+    }
+
+    const recent = turns.slice(turns.length - recentCount);
+    const folded = turns.slice(0, turns.length - recentCount);
+    if (folded.length > 0) {
+      summary = await this.fold(summary, folded, summaryBudget, options);
+      await this.saveSummary(conversationId, summary);
+    }
+
+    return this.compose(systemPrompt, summary, recent);
+  }
+
+  private compose(systemPrompt: string, summary: ConversationSummary | null, turns: ChatMessage[]): ProviderMessage[] {
+    const system = summary?.text
+      ? `${systemPrompt}\n\nEARLIER IN THIS CONVERSATION:\n${summary.text}`
+      : systemPrompt;
+
+    return [
+      { role: 'system', content: system },
+      ...turns.map(turn => ({ role: turn.role, content: turn.content })),
+    ];
+  }
+
+  /**
+   * Merge turns into the running summary, chunked so each summarization request fits the model
+   */
+  private async fold(
+    summary: ConversationSummary | null,
+    turns: ChatMessage[],
+    maxTokens: number,
+    options: BuildContextOptions
+  ): Promise<ConversationSummary> {
+    const { config, provider, abortSignal } = options;
+    const coveredUntil = turns[turns.length - 1].timestamp;
+    let text = summary?.text ?? '';
+
+    if (provider.type === 'local') {
+      return { text: extractiveSummary(text, turns, maxTokens, config.type), coveredUntil };
+    }
+
+    const chunkBudget = Math.max(promptBudget(config) - maxTokens * 2, maxTokens);
+    let chunk: ChatMessage[] = [];
+    let chunkTokens = 0;
+
+    for (const [index, turn] of turns.entries()) {
+      chunk.push(turn);
+      chunkTokens += estimateTokens(turn.content, config.type);
+
+      const next = turns[index + 1];
+      if (next && chunkTokens + estimateTokens(next.content, config.type) <= chunkBudget) continue;
+
+      try {
+        text = await this.summarizeWithProvider(text, chunk, maxTokens, options);
+      } catch (error) {
+        if (abortSignal?.aborted) throw error;
+        console.warn('[Context] Summary request failed, summarizing locally:', error);
+        text = extractiveSummary(text, chunk, maxTokens, config.type);
+      }
+      chunk = [];
+      chunkTokens = 0;
+    }
+
+    return { text, coveredUntil };
+  }
+
+  private async summarizeWithProvider(
+    previous: string,
+    turns: ChatMessage[],
+    maxTokens: number,
+    { characterName, provider, abortSignal }: BuildContextOptions
+  ): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'Friend' : characterName}: ${turn.content}`)
+      .join('\n');
+    const request = previous ? `EARLIER NOTES:\n${previous}\n\nNEW TRANSCRIPT:\n${transcript}` : `TRANSCRIPT:\n${transcript}`;
+
+    const { content } = await provider.streamChat(
+      [
+        // Roughly three words per four tokens
+        { role: 'system', content: substituteMacros(SUMMARY_INSTRUCTIONS(Math.round(maxTokens * 0.75)), characterName) },
+        { role: 'user', content: request },
+      ],
+      () => {},
+      abortSignal
+    );
+
+    const summary = content.trim();
+    if (!summary) throw new Error('Empty summary');
+    return summary;
+  }
+
+  /**
+   * Persisted turns older than the loaded messages that the summary does not cover yet
+   */
+  private async loadGap(
+    conversationId: string | undefined,
+    summary: ConversationSummary | null,
+    oldestLoaded: ChatMessage
+  ): Promise<ChatMessage[]> {
+    if (!conversationId) return [];
+
+    try {
+      const gap: ChatMessage[] = [];
+      let before: MessageCursor = oldestLoaded;
+      // Page back until the summary's end or the start of the conversation
+      for (;;) {
+        const { messages, hasMore } = await conversationRepository.loadMessages(conversationId, { before, limit: GAP_FETCH_LIMIT });
+        const uncovered = summary ? messages.filter(m => m.timestamp > summary.coveredUntil) : messages;
+        gap.unshift(...uncovered);
+        if (!hasMore || uncovered.length < messages.length || messages.length === 0) break;
+        before = messages[0];
+      }
+      return gap.filter(m => m.role !== 'system');
+    } catch (error) {
+      console.warn('[Context] Could not load older turns:', error);
+      return [];
+    }
+  }
+
+  private async getSummary(conversationId?: string): Promise<ConversationSummary | null> {
+    if (!conversationId) return null;
+
+    const cached = this.summaries.get(conversationId);
+    if (cached !== undefined) return cached;
+
+    try {
+      const conversation = await conversationRepository.getConversation(conversationId);
+      const summary = conversation?.summary ?? null;
+      this.summaries.set(conversationId, summary);
+      return summary;
+    } catch (error) {
+      console.warn('[Context] Summary unavailable:', error);
+      return null;
+    }
+  }
+
+  private async saveSummary(conversationId: string | undefined, summary: ConversationSummary): Promise<void> {
+    if (!conversationId) return;
+
+    this.summaries.set(conversationId, summary);
+    try {
+      await conversationRepository.saveSummary(conversationId, summary);
+    } catch (error) {
+      console.warn('[Context] Failed to persist summary:', error);
+    }
+  }
+}
+
+export const contextBuilder = new ContextBuilder();
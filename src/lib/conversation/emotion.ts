@@ -0,0 +1,12 @@
+/**
+ * Reply Emotion Detection
+ * Classifier fallback used when neither the backend nor a middleware supplies an emotion
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { stripPerformance } from '../performanceTags';
+import { classifyEmotion, dominantEmotion } from '../sentiment';
+
+export function detectEmotion(content: string): EmotionType {
+  return dominantEmotion(classifyEmotion(stripPerformance(content)));
+}
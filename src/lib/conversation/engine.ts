@@ -0,0 +1,130 @@
+/**
+ * Conversation Engine
+ * Runs one chat turn through middleware, the context builder and the active LLM provider
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { characterService } from '../characters';
+import { contextBuilder } from '../contextBuilder';
+import { createProvider, getProviderConfig, mergeProviderConfig } from '../llm';
+import { taggedEmotion } from '../performanceTags';
+import { detectEmotion } from './emotion';
+import { generateLocalResponse } from './localEngine';
+import { buildSystemPrompt } from './prompt';
+import { ChatMessage, ConversationMiddleware, GenerateRequest, MessageMetadata, MessageRole, StreamCallbacks, TurnContext } from './types';
+
+/**
+ * Create a new message object
+ */
+export function createMessage(
+  role: MessageRole,
+  content: string,
+  emotion?: EmotionType,
+  metadata?: MessageMetadata
+): ChatMessage {
+  return {
+    id: crypto.randomUUID(),
+    role,
+    content,
+    timestamp: new Date(),
+    emotion,
+    metadata,
+  };
+}
+
+const abortError = () => new Error('Request aborted');
+
+export class ConversationEngine {
+  private middleware: ConversationMiddleware[] = [];
+
+  /**
+   * Register middleware; hooks run in registration order. Returns an unregister function
+   */
+  use(middleware: ConversationMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    return () => {
+      this.middleware = this.middleware.filter(m => m !== middleware);
+    };
+  }
+
+  /**
+   * Emotion of some reply text: its last emotion tag, then middleware detectors, then the keyword fallback
+   */
+  detectEmotion(content: string, context?: TurnContext): EmotionType {
+    const tagged = taggedEmotion(content);
+    if (tagged) return tagged;
+    for (const { detectEmotion: detect } of this.middleware) {
+      const emotion = detect?.(content, context);
+      if (emotion) return emotion;
+    }
+    return detectEmotion(content);
+  }
+
+  /**
+   * Streaming API: tokens arrive through `onToken`; exactly one of onComplete/onError fires
+   */
+  async stream(request: GenerateRequest, callbacks: StreamCallbacks): Promise<void> {
+    try {
+      callbacks.onComplete(await this.run(request, callbacks.onToken));
+    } catch (error) {
+      if (request.signal?.aborted) {
+        callbacks.onError(abortError());
+      } else if (error instanceof Error) {
+        callbacks.onError(error);
+      } else {
+        callbacks.onError(new Error('Unknown error occurred'));
+      }
+    }
+  }
+
+  /**
+   * Non-streaming API: resolves with the finished assistant message
+   */
+  async generate(request: GenerateRequest): Promise<ChatMessage> {
+    try {
+      return await this.run(request, () => {});
+    } catch (error) {
+      throw request.signal?.aborted ? abortError() : error;
+    }
+  }
+
+  private async run(request: GenerateRequest, onToken: (token: string) => void): Promise<ChatMessage> {
+    const { signal, conversationId, providerOverrides, dialogue } = request;
+    const config = providerOverrides
+      ? mergeProviderConfig(getProviderConfig(), providerOverrides)
+      : getProviderConfig();
+
+    const character = request.character ?? characterService.active;
+    let context: TurnContext = { messages: request.messages, config, character, conversationId, signal };
+    for (const { preProcess } of this.middleware) {
+      const messages = await preProcess?.(context);
+      if (messages) context = { ...context, messages };
+    }
+
+    if (!context.messages.some(m => m.role === 'user')) {
+      throw new Error('No user message found');
+    }
+    if (signal?.aborted) throw abortError();
+
+    const provider = createProvider(config, message => generateLocalResponse(message, character, dialogue));
+    const prompt = await contextBuilder.build(context.messages, {
+      systemPrompt: buildSystemPrompt(context.messages, character),
+      characterName: character.name,
+      config,
+      provider,
+      conversationId,
+      abortSignal: signal,
+    });
+    const result = await provider.streamChat(prompt, onToken, signal);
+    if (signal?.aborted) throw abortError();
+
+    let reply = createMessage('assistant', result.content, result.emotion, { provider: config.type, model: config.model });
+    for (const { postProcess } of this.middleware) {
+      const processed = await postProcess?.(reply, context);
+      if (processed) reply = processed;
+    }
+
+    // The local engine knows its emotion up front; remote replies are classified here
+    return { ...reply, emotion: reply.emotion ?? this.detectEmotion(reply.content, context) };
+  }
+}
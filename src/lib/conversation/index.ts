@@ -0,0 +1,20 @@
+/**
+ * Conversation Engine
+ * Single entry point for generating Miku's replies, streaming or not
+ */
+
+import { ConversationEngine } from './engine';
+
+export type {
+  ChatMessage,
+  ConversationMiddleware,
+  GenerateRequest,
+  MessageMetadata,
+  MessageRole,
+  StreamCallbacks,
+  TurnContext,
+} from './types';
+export { ConversationEngine, createMessage } from './engine';
+export { resetLocalDialogue } from './localEngine';
+
+export const conversationEngine = new ConversationEngine();
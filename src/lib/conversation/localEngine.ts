@@ -0,0 +1,90 @@
+/**
+ * Local Rule Engine
+ * Offline replies: scripted intents first, then memories and past conversations, then a fallback
+ */
+
+import { formatDistanceToNow, Locale } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { EmotionType } from '@/store/appStore';
+import { CharacterCard, characterService, substituteMacros } from '../characters';
+import { IntentEngine } from '../intentEngine';
+import { memoryService } from '../memoryService';
+import { recallService } from '../recallService';
+import { detectLocale, responsePacks } from '../responsePacks';
+import { classifyEmotion, dominantEmotion } from '../sentiment';
+
+// Only bring up past remarks from earlier sessions, not the current exchange
+const RECALL_MIN_AGE_MS = 1000 * 60 * 30;
+
+// Relative dates in recall replies, by locale; English otherwise
+const DATE_LOCALES: Record<string, Locale> = { ja };
+
+// Offline dialogue state (follow-up context, slots) for the main chat
+const intentEngine = new IntentEngine();
+
+/**
+ * Address the user by name in the opening phrase when Miku remembers it
+ */
+function personalize(response: string): string {
+  const name = memoryService.userName;
+  if (!name || Math.random() > 0.5) return response;
+  return response.replace(/^([^!?.,]+?)(~?[!?.])/, `$1, ${name}$2`);
+}
+
+/**
+ * Generate local response (no API)
+ */
+export function generateLocalResponse(
+  userMessage: string,
+  character: CharacterCard = characterService.active,
+  dialogue: IntentEngine = intentEngine
+): { content: string; emotion: EmotionType } {
+  const packIds = character.responsePacks;
+
+  // Scripted intents from the character's response packs come first
+  dialogue.usePacks(packIds);
+  const reply = dialogue.respond(userMessage);
+  if (reply) return { content: personalize(reply.content), emotion: reply.emotion };
+
+  // Memory, recall and feeling replies come from the packs in the user's language
+  const locale = detectLocale(userMessage);
+
+  // Bring up something Miku remembers about the topic
+  const memory = memoryService.relatedTo(userMessage)[0];
+  if (memory) {
+    // Learned from this very message
+    const learned = memory.mentions === 1 && Date.now() - memory.createdAt.getTime() < 10000;
+    const values = memory.label ? { value: memory.value, label: memory.label } : { value: memory.value };
+    const kind = learned ? 'learned' : memory.kind === 'name' ? null : memory.kind;
+    const remembered = kind && responsePacks.memoryReply(kind, values, locale, packIds);
+    if (remembered) {
+      const content = kind === 'preference' ? personalize(remembered.content) : remembered.content;
+      return { content, emotion: remembered.emotion };
+    }
+  }
+
+  // Recall something the user said in an earlier session
+  const [recalled] = recallService.search(userMessage, 1, undefined, {
+    role: 'user',
+    olderThan: new Date(Date.now() - RECALL_MIN_AGE_MS),
+  });
+  if (recalled) {
+    const when = formatDistanceToNow(recalled.timestamp, { addSuffix: true, locale: DATE_LOCALES[locale] });
+    const recall = responsePacks.memoryReply('recall', { when, quote: recalled.content }, locale, packIds);
+    if (recall) return { content: recall.content, emotion: recall.emotion };
+  }
+
+  // Meet how the user feels rather than change the subject
+  const feeling = responsePacks.feelingReply(dominantEmotion(classifyEmotion(userMessage)), locale, packIds);
+  if (feeling) return { content: personalize(substituteMacros(feeling.content, character.name)), emotion: feeling.emotion };
+
+  const fallback = responsePacks.fallback(locale, packIds);
+  return { content: fallback.content, emotion: fallback.emotion };
+}
+
+/**
+ * Forget offline follow-up context and slots, e.g. when switching conversations
+ */
+export function resetLocalDialogue(): void {
+  intentEngine.reset();
+}
@@ -0,0 +1,41 @@
+/**
+ * System Prompt
+ * The active character's persona plus the memories and past exchanges relevant to the latest message,
+ * and a hint about how the user seems to feel
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { buildCharacterPrompt, CharacterCard, characterService } from '../characters';
+import { memoryService } from '../memoryService';
+import { recallService } from '../recallService';
+import { PERFORMANCE_PROMPT } from '../performanceTags';
+import { classifyEmotion, dominantEmotion } from '../sentiment';
+import { ChatMessage } from './types';
+
+// How to meet the user's mood; emotions without an entry need no special handling
+const USER_FEELING: Partial<Record<EmotionType, string>> = {
+  happy: 'Your friend sounds happy. Share in it.',
+  excited: 'Your friend sounds excited! Match their energy.',
+  sad: 'Your friend sounds down. Be gentle and supportive before anything else; no forced cheerfulness.',
+  annoyed: 'Your friend sounds frustrated. Acknowledge it calmly and keep the reply short.',
+  shy: 'Your friend sounds a little shy. Be warm and reassuring.',
+  funny: 'Your friend is joking around. Play along.',
+};
+
+/**
+ * Character prompt plus what the companion remembers that is relevant to the latest message, how
+ * the user seems to feel, and how to tag the reply for performance
+ */
+export function buildSystemPrompt(messages: ChatMessage[], character: CharacterCard = characterService.active): string {
+  const lastUserMessage = messages.filter(m => m.role === 'user').pop();
+  const query = lastUserMessage?.content ?? '';
+  // Messages already in the window don't need recalling
+  const inContext = new Set(messages.map(m => m.id));
+  return [
+    buildCharacterPrompt(character, memoryService.userName),
+    memoryService.formatForPrompt(query),
+    recallService.formatForPrompt(query, inContext),
+    USER_FEELING[dominantEmotion(classifyEmotion(query))] ?? '',
+    PERFORMANCE_PROMPT,
+  ].filter(Boolean).join('\n\n');
+}
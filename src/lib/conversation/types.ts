@@ -0,0 +1,74 @@
+/**
+ * Conversation Types
+ * The one message model shared by the engine, the store, persistence and the UI
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { CharacterCard } from '../characters';
+import { IntentEngine } from '../intentEngine';
+import { ProviderConfig, ProviderType } from '../llm';
+
+export type MessageRole = 'user' | 'assistant' | 'system';
+
+export interface MessageMetadata {
+  // Backend that produced an assistant reply
+  provider?: ProviderType;
+  model?: string;
+  // Reply was cut short by the user
+  aborted?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: MessageRole;
+  content: string;
+  timestamp: Date;
+  emotion?: EmotionType;
+  metadata?: MessageMetadata;
+}
+
+/**
+ * What the engine knows about the turn being generated
+ */
+export interface TurnContext {
+  messages: ChatMessage[];
+  config: ProviderConfig;
+  character: CharacterCard;
+  conversationId?: string;
+  signal?: AbortSignal;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks around every turn; any of them may be omitted
+ */
+export interface ConversationMiddleware {
+  name: string;
+  // Runs before the prompt is built; return a new history to replace it
+  preProcess?: (context: TurnContext) => MaybePromise<ChatMessage[] | void>;
+  // Runs on the finished reply; return a new message to replace it
+  postProcess?: (reply: ChatMessage, context: TurnContext) => MaybePromise<ChatMessage | void>;
+  // Classifies reply text; the first middleware returning an emotion wins
+  detectEmotion?: (content: string, context?: TurnContext) => EmotionType | undefined;
+}
+
+export interface GenerateRequest {
+  messages: ChatMessage[];
+  // Lets the running summary of older turns be reused and persisted
+  conversationId?: string;
+  // Patches the active provider config for this call only
+  providerOverrides?: Partial<ProviderConfig>;
+  // Persona to answer as, e.g. an unsaved draft; the active character otherwise
+  character?: CharacterCard;
+  // Offline follow-up context and slots for a separate chat; the main chat's otherwise
+  dialogue?: IntentEngine;
+  signal?: AbortSignal;
+}
+
+export interface StreamCallbacks {
+  onToken: (token: string) => void;
+  onComplete: (reply: ChatMessage) => void;
+  onError: (error: Error) => void;
+}
@@ -0,0 +1,239 @@
+/**
+ * Conversation Repository
+ * Persists conversations and their messages in IndexedDB so history survives reloads
+ */
+
+import { ChatMessage } from './conversation/types';
+import { INDEXES, isIndexedDBSupported, openDatabase, promisify, STORES, transactionDone } from './db';
+
+/**
+ * Running summary of turns that no longer fit in the model's context window
+ */
+export interface ConversationSummary {
+  text: string;
+  // Timestamp of the newest message folded into the summary
+  coveredUntil: Date;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+  summary?: ConversationSummary;
+}
+
+export type StoredMessage = ChatMessage;
+
+// Position in a conversation's history; messages sharing a millisecond are ordered by id
+export type MessageCursor = Pick<StoredMessage, 'timestamp' | 'id'>;
+
+export interface MessagePage {
+  messages: StoredMessage[];
+  hasMore: boolean;
+}
+
+// On-disk shapes: dates are stored as epoch milliseconds so they index and sort reliably
+interface ConversationRecord extends Omit<Conversation, 'createdAt' | 'updatedAt' | 'summary'> {
+  createdAt: number;
+  updatedAt: number;
+  summary?: { text: string; coveredUntil: number };
+}
+
+interface MessageRecord extends Omit<StoredMessage, 'timestamp'> {
+  conversationId: string;
+  timestamp: number;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+const TITLE_MAX_LENGTH = 40;
+
+const toMillis = (value: Date | string | number): number =>
+  value instanceof Date ? value.getTime() : new Date(value).getTime();
+
+const toConversation = (record: ConversationRecord): Conversation => ({
+  ...record,
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt),
+  summary: record.summary && { text: record.summary.text, coveredUntil: new Date(record.summary.coveredUntil) },
+});
+
+const toStoredMessage = ({ conversationId: _conversationId, ...record }: MessageRecord): StoredMessage => ({
+  ...record,
+  timestamp: new Date(record.timestamp),
+});
+
+export class ConversationRepository {
+  get isSupported(): boolean {
+    return isIndexedDBSupported();
+  }
+
+  private open(): Promise<IDBDatabase> {
+    return openDatabase();
+  }
+
+  /**
+   * All conversations, most recently active first
+   */
+  async listConversations(): Promise<Conversation[]> {
+    const db = await this.open();
+    const tx = db.transaction(STORES.conversations, 'readonly');
+    const records = await promisify<ConversationRecord[]>(tx.objectStore(STORES.conversations).getAll());
+    return records.map(toConversation).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    const db = await this.open();
+    const tx = db.transaction(STORES.conversations, 'readonly');
+    const record = await promisify<ConversationRecord | undefined>(tx.objectStore(STORES.conversations).get(id));
+    return record ? toConversation(record) : null;
+  }
+
+  async createConversation(title: string = DEFAULT_CONVERSATION_TITLE): Promise<Conversation> {
+    const now = Date.now();
+    const record: ConversationRecord = {
+      id: crypto.randomUUID(),
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+    };
+
+    const db = await this.open();
+    const tx = db.transaction(STORES.conversations, 'readwrite');
+    tx.objectStore(STORES.conversations).add(record);
+    await transactionDone(tx);
+    return toConversation(record);
+  }
+
+  async renameConversation(id: string, title: string): Promise<Conversation> {
+    const db = await this.open();
+    const tx = db.transaction(STORES.conversations, 'readwrite');
+    const store = tx.objectStore(STORES.conversations);
+    const record = await promisify<ConversationRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Conversation not found: ${id}`);
+
+    const updated: ConversationRecord = { ...record, title: title.trim() || DEFAULT_CONVERSATION_TITLE };
+    store.put(updated);
+    await transactionDone(tx);
+    return toConversation(updated);
+  }
+
+  async saveSummary(id: string, summary: ConversationSummary): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORES.conversations, 'readwrite');
+    const store = tx.objectStore(STORES.conversations);
+    const record = await promisify<ConversationRecord | undefined>(store.get(id));
+    if (!record) throw new Error(`Conversation not found: ${id}`);
+
+    store.put({ ...record, summary: { text: summary.text, coveredUntil: toMillis(summary.coveredUntil) } });
+    await transactionDone(tx);
+  }
+
+  /**
+   * Delete a conversation together with all of its messages
+   */
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([STORES.conversations, STORES.messages], 'readwrite');
+    tx.objectStore(STORES.conversations).delete(id);
+
+    const range = IDBKeyRange.bound([id, -Infinity], [id, Infinity]);
+    const request = tx.objectStore(STORES.messages).index(INDEXES.messagesByConversation).openKeyCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(STORES.messages).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    await transactionDone(tx);
+  }
+
+  /**
+   * Append a message and bump the conversation's activity; the first user message names an untitled chat
+   */
+  async appendMessage(conversationId: string, message: StoredMessage): Promise<Conversation> {
+    const db = await this.open();
+    const tx = db.transaction([STORES.conversations, STORES.messages], 'readwrite');
+    const conversations = tx.objectStore(STORES.conversations);
+
+    const record = await promisify<ConversationRecord | undefined>(conversations.get(conversationId));
+    if (!record) throw new Error(`Conversation not found: ${conversationId}`);
+
+    const timestamp = toMillis(message.timestamp);
+    const messageRecord: MessageRecord = { ...message, conversationId, timestamp };
+    tx.objectStore(STORES.messages).put(messageRecord);
+
+    const updated: ConversationRecord = {
+      ...record,
+      updatedAt: Math.max(record.updatedAt, timestamp),
+      messageCount: record.messageCount + 1,
+    };
+    if (record.title === DEFAULT_CONVERSATION_TITLE && message.role === 'user') {
+      const title = message.content.replace(/\s+/g, ' ').trim();
+      updated.title = title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title;
+    }
+    conversations.put(updated);
+
+    await transactionDone(tx);
+    return toConversation(updated);
+  }
+
+  /**
+   * Every stored message across all conversations, tagged with its conversation
+   */
+  async listAllMessages(): Promise<(StoredMessage & { conversationId: string })[]> {
+    const db = await this.open();
+    const tx = db.transaction(STORES.messages, 'readonly');
+    const records = await promisify<MessageRecord[]>(tx.objectStore(STORES.messages).getAll());
+    return records.map(record => ({ ...toStoredMessage(record), conversationId: record.conversationId }));
+  }
+
+  /**
+   * Load the newest messages before the `before` message, returned in chronological order
+   */
+  async loadMessages(
+    conversationId: string,
+    options: { before?: MessageCursor; limit?: number } = {}
+  ): Promise<MessagePage> {
+    const limit = options.limit ?? 30;
+    const before = options.before;
+    const upper = before ? toMillis(before.timestamp) : Infinity;
+
+    const db = await this.open();
+    const tx = db.transaction(STORES.messages, 'readonly');
+    // Inclusive, so messages from the cursor's millisecond with a smaller id are not skipped
+    const range = IDBKeyRange.bound([conversationId, -Infinity], [conversationId, upper]);
+    const request = tx.objectStore(STORES.messages).index(INDEXES.messagesByConversation).openCursor(range, 'prev');
+
+    return new Promise((resolve, reject) => {
+      const records: MessageRecord[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ messages: records.reverse().map(toStoredMessage), hasMore: false });
+          return;
+        }
+        // Index entries with equal keys come in primary key order, i.e. by id
+        const record = cursor.value as MessageRecord;
+        if (before && record.timestamp === upper && record.id >= before.id) {
+          cursor.continue();
+          return;
+        }
+        // Read one past the page to learn whether more history exists
+        if (records.length === limit) {
+          resolve({ messages: records.reverse().map(toStoredMessage), hasMore: true });
+          return;
+        }
+        records.push(record);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const conversationRepository = new ConversationRepository();
@@ -0,0 +1,81 @@
+/**
+ * IndexedDB access shared by the persistent stores
+ * One database, versioned; each upgrade step only adds what its version introduced
+ */
+
+const DB_NAME = 'miku-companion';
+const DB_VERSION = 4;
+
+export const STORES = {
+  conversations: 'conversations',
+  messages: 'messages',
+  memories: 'memories',
+  characters: 'characters',
+  moods: 'moods',
+} as const;
+
+export const INDEXES = {
+  messagesByConversation: 'byConversation',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+function upgrade(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+    const messages = db.createObjectStore(STORES.messages, { keyPath: 'id' });
+    messages.createIndex(INDEXES.messagesByConversation, ['conversationId', 'timestamp']);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.memories, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.characters, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.moods, { keyPath: 'characterId' });
+  }
+}
+
+/**
+ * Open (once) the companion database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  if (!isIndexedDBSupported()) {
+    return Promise.reject(new Error('IndexedDB not supported'));
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Expression Mixer
+ * Turns the current emotion, blinks and lip-sync visemes into one set of VRM expression weights:
+ * emotions ease in, hold, then fade back to neutral, and make room for blinking and speech
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { CLOSED_MOUTH, Viseme, VisemeWeights } from './audioAnalyzer';
+
+/**
+ * VRM emotion presets
+ */
+export type MoodExpression = 'happy' | 'angry' | 'sad' | 'relaxed' | 'surprised';
+
+export type ExpressionWeights = Partial<Record<MoodExpression, number>>;
+
+export const MOOD_EXPRESSIONS: MoodExpression[] = ['happy', 'angry', 'sad', 'relaxed', 'surprised'];
+
+export const DEFAULT_EMOTION_EXPRESSIONS: Record<EmotionType, ExpressionWeights> = {
+  neutral: {},
+  happy: { happy: 0.8 },
+  excited: { happy: 0.6, surprised: 0.5 },
+  curious: { surprised: 0.35, relaxed: 0.2 },
+  shy: { happy: 0.35, relaxed: 0.3 },
+  sad: { sad: 0.8 },
+  funny: { happy: 1 },
+  annoyed: { angry: 0.7 },
+  calm: { relaxed: 0.7 },
+};
+
+// VRM lip-sync presets for each vowel viseme
+export const VISEME_EXPRESSIONS: Record<Exclude<Viseme, 'closed'>, string> = {
+  a: 'aa',
+  i: 'ih',
+  u: 'ou',
+  e: 'ee',
+  o: 'oh',
+};
+
+// How much each mood already narrows the eyes, so a blink on top never over-closes them
+const EYE_CLOSURE: ExpressionWeights = { happy: 0.6, relaxed: 0.5 };
+
+export interface ExpressionMixerOptions {
+  mapping: Record<EmotionType, ExpressionWeights>;
+  // Time constant of the ease between expressions, in seconds
+  transitionSeconds: number;
+  // Full strength after an emotion is set, then a fade to neutral over `decaySeconds`
+  holdSeconds: number;
+  decaySeconds: number;
+  // Share of the mood taken off while the mouth is fully open, so visemes stay readable
+  speakingDamping: number;
+}
+
+export const DEFAULT_EXPRESSION_MIXER_OPTIONS: ExpressionMixerOptions = {
+  mapping: DEFAULT_EMOTION_EXPRESSIONS,
+  transitionSeconds: 0.25,
+  holdSeconds: 4,
+  decaySeconds: 6,
+  speakingDamping: 0.5,
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export class ExpressionMixer {
+  private options: ExpressionMixerOptions;
+  private emotion: EmotionType = 'neutral';
+  // Seconds since the emotion was set
+  private age = 0;
+  private current: Record<MoodExpression, number> = { happy: 0, angry: 0, sad: 0, relaxed: 0, surprised: 0 };
+
+  constructor(options: Partial<ExpressionMixerOptions> = {}) {
+    this.options = { ...DEFAULT_EXPRESSION_MIXER_OPTIONS, ...options };
+  }
+
+  /**
+   * Per-emotion overrides on top of the default mapping, e.g. from a character card
+   */
+  setMapping(overrides: Partial<Record<EmotionType, ExpressionWeights>> = {}): void {
+    this.options = { ...this.options, mapping: { ...DEFAULT_EMOTION_EXPRESSIONS, ...overrides } };
+  }
+
+  /**
+   * Show an emotion at full strength; setting the same one again restarts its hold
+   */
+  setEmotion(emotion: EmotionType): void {
+    this.emotion = emotion;
+    this.age = 0;
+  }
+
+  /**
+   * How strongly the emotion still shows, 1 while held and easing to 0 as it decays
+   */
+  get intensity(): number {
+    const { holdSeconds, decaySeconds } = this.options;
+    if (this.age <= holdSeconds) return 1;
+    if (decaySeconds <= 0) return 0;
+    return 1 - smoothstep(Math.min(1, (this.age - holdSeconds) / decaySeconds));
+  }
+
+  /**
+   * Advance by `delta` seconds and return every expression weight to apply this frame
+   */
+  update(delta: number, input: { blink?: number; visemes?: VisemeWeights } = {}): Record<string, number> {
+    this.age += delta;
+    const { mapping, transitionSeconds, speakingDamping } = this.options;
+    const target = mapping[this.emotion] ?? {};
+    const intensity = this.intensity;
+    // Frame-rate independent exponential ease
+    const ease = transitionSeconds > 0 ? 1 - Math.exp(-delta / transitionSeconds) : 1;
+
+    const visemes = input.visemes ?? CLOSED_MOUTH;
+    const mouthOpen = 1 - visemes.closed;
+    const weights: Record<string, number> = {};
+
+    let eyeClosure = 0;
+    for (const expression of MOOD_EXPRESSIONS) {
+      const goal = (target[expression] ?? 0) * intensity;
+      this.current[expression] += (goal - this.current[expression]) * ease;
+      const weight = this.current[expression] * (1 - speakingDamping * mouthOpen);
+      weights[expression] = weight;
+      eyeClosure += weight * (EYE_CLOSURE[expression] ?? 0);
+    }
+
+    // Blinks and visemes add on top of the mood, capped so the sum never exceeds a full shape
+    weights.blink = Math.min(input.blink ?? 0, Math.max(0, 1 - eyeClosure));
+    let mouthTotal = 0;
+    for (const viseme of Object.keys(VISEME_EXPRESSIONS) as Exclude<Viseme, 'closed'>[]) {
+      mouthTotal += visemes[viseme];
+    }
+    const mouthScale = mouthTotal > 1 ? 1 / mouthTotal : 1;
+    for (const [viseme, expression] of Object.entries(VISEME_EXPRESSIONS) as [Exclude<Viseme, 'closed'>, string][]) {
+      weights[expression] = visemes[viseme] * mouthScale;
+    }
+    return weights;
+  }
+}
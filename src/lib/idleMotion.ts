@@ -0,0 +1,282 @@
+/**
+ * Idle Motion
+ * The small movements that keep a character alive between lines: breathing, blinks (sometimes
+ * doubled), eye saccades, glances and weight shifts. Produces one renderer-agnostic pose per frame
+ * that both the built-in model and VRM humanoid bones apply, shaped by the current emotion and
+ * app signal
+ */
+
+import { AppSignal, EmotionType } from '@/store/appStore';
+
+// Euler angles in radians for a model facing +z: x tips the face down, y turns it to the
+// character's left, z rolls the head towards the character's right shoulder
+export interface Rotation {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface IdlePose {
+  // Breathing cycle from -1 (exhaled) to 1 (inhaled), scaled by depth
+  breath: number;
+  // Sideways hip offset in model units and the roll that goes with it
+  hips: { offset: number; roll: number };
+  spine: Rotation;
+  chest: Rotation;
+  head: Rotation;
+  // Gaze relative to the head, radians; same axes as `head`
+  eyes: { x: number; y: number };
+  // 0 open to 1 closed
+  blink: number;
+}
+
+export interface IdleProfile {
+  breathsPerMinute: number;
+  breathDepth: number;
+  // Seconds between blinks, picked uniformly from the range
+  blinkInterval: [number, number];
+  doubleBlinkChance: number;
+  // Mean seconds between eye saccades and how far they wander
+  saccadeInterval: number;
+  saccadeRange: number;
+  // Chance that a saccade becomes a glance the head follows
+  glanceChance: number;
+  // Mean seconds between weight shifts and how far the hips move
+  shiftInterval: number;
+  shiftAmount: number;
+  // Slow head drift amplitude, plus a held tilt and nod
+  headSway: number;
+  headTilt: number;
+  headDrop: number;
+}
+
+const BASE_PROFILE: IdleProfile = {
+  breathsPerMinute: 14,
+  breathDepth: 1,
+  blinkInterval: [2.5, 6],
+  doubleBlinkChance: 0.15,
+  saccadeInterval: 1.8,
+  saccadeRange: 0.12,
+  glanceChance: 0.12,
+  shiftInterval: 9,
+  shiftAmount: 1,
+  headSway: 0.035,
+  headTilt: 0,
+  headDrop: 0,
+};
+
+export const EMOTION_IDLE_PROFILES: Record<EmotionType, Partial<IdleProfile>> = {
+  neutral: {},
+  happy: { breathsPerMinute: 16, saccadeInterval: 1.4, headSway: 0.05, headTilt: 0.05 },
+  excited: { breathsPerMinute: 20, breathDepth: 1.3, saccadeInterval: 0.9, saccadeRange: 0.16, shiftInterval: 5, headSway: 0.07 },
+  curious: { saccadeInterval: 1.1, saccadeRange: 0.16, glanceChance: 0.2, headTilt: 0.18 },
+  shy: { blinkInterval: [1.5, 4], doubleBlinkChance: 0.3, glanceChance: 0.35, headDrop: 0.1, headTilt: 0.08 },
+  sad: { breathsPerMinute: 10, breathDepth: 1.2, blinkInterval: [3, 7], saccadeInterval: 3, saccadeRange: 0.07, shiftInterval: 14, shiftAmount: 0.5, headSway: 0.02, headDrop: 0.14 },
+  funny: { breathsPerMinute: 17, headSway: 0.08, headTilt: 0.2, shiftInterval: 6 },
+  annoyed: { blinkInterval: [4, 8], doubleBlinkChance: 0.05, saccadeInterval: 1.2, glanceChance: 0.25, headSway: 0.02, headDrop: -0.04 },
+  calm: { breathsPerMinute: 10, breathDepth: 1.1, blinkInterval: [3.5, 7], saccadeInterval: 2.8, saccadeRange: 0.08, shiftInterval: 14, headSway: 0.025 },
+};
+
+// Where each app state holds the body, eased in on top of the idle motion
+interface Posture {
+  // Forward lean of the spine
+  lean: number;
+  head: Rotation;
+  // Held gaze offset; `y` flips to a random side each time the state is entered
+  gaze: { x: number; y: number };
+  // Scales saccades, glances and head drift
+  restlessness: number;
+}
+
+const SIGNAL_POSTURES: Record<AppSignal, Posture> = {
+  IDLE: { lean: 0, head: { x: 0, y: 0, z: 0 }, gaze: { x: 0, y: 0 }, restlessness: 1 },
+  // Attentive: lean in, tilt the head and keep the eyes on the user
+  LISTENING: { lean: 0.07, head: { x: 0.03, y: 0, z: 0.07 }, gaze: { x: 0, y: 0 }, restlessness: 0.35 },
+  // Look up and aside while working out a reply
+  THINKING: { lean: -0.02, head: { x: -0.14, y: 0.12, z: -0.04 }, gaze: { x: -0.22, y: 0.18 }, restlessness: 0.5 },
+  SPEAKING: { lean: 0.02, head: { x: 0, y: 0, z: 0 }, gaze: { x: 0, y: 0 }, restlessness: 1.4 },
+  ERROR: { lean: -0.03, head: { x: 0.12, y: 0, z: 0.05 }, gaze: { x: 0.1, y: 0 }, restlessness: 0.6 },
+};
+
+// Seconds to close and to reopen the eyes in one blink; the gap before a second blink
+const BLINK_CLOSE = 0.06;
+const BLINK_OPEN = 0.1;
+const DOUBLE_BLINK_GAP = 0.12;
+// Time constants of the eases, in seconds
+const SACCADE_EASE = 0.035;
+const GLANCE_EASE = 0.25;
+const SHIFT_EASE = 1.2;
+const POSTURE_EASE = 0.5;
+
+const random = (min: number, max: number) => min + Math.random() * (max - min);
+// Exponentially distributed wait with the given mean, clamped so nothing fires back to back
+const wait = (mean: number) => Math.max(mean * 0.25, -Math.log(1 - Math.random()) * mean);
+const approach = (current: number, target: number, delta: number, seconds: number) =>
+  current + (target - current) * (1 - Math.exp(-delta / seconds));
+
+export class IdleAnimator {
+  private profile: IdleProfile = BASE_PROFILE;
+  private posture: Posture = SIGNAL_POSTURES.IDLE;
+  private gazeSide = 1;
+  private time = 0;
+  private breathPhase = 0;
+
+  // Blink: counts down to the next one, then plays it; a second one may be queued
+  private nextBlink = random(1, 3);
+  private blinkAge = -1;
+  private pendingDoubleBlink = false;
+
+  private nextSaccade = 0.5;
+  private saccadeTarget = { x: 0, y: 0 };
+  private eyes = { x: 0, y: 0 };
+  // A glance turns the head as well, for a while
+  private glanceLeft = 0;
+  private glanceTarget = 0;
+  private glance = 0;
+
+  private nextShift = random(3, 8);
+  private shiftTarget = 0;
+  private shift = 0;
+
+  // Eased posture values
+  private lean = 0;
+  private postureHead: Rotation = { x: 0, y: 0, z: 0 };
+  private postureGaze = { x: 0, y: 0 };
+  private restlessness = 1;
+  private tilt = 0;
+  private drop = 0;
+
+  setEmotion(emotion: EmotionType): void {
+    this.profile = { ...BASE_PROFILE, ...EMOTION_IDLE_PROFILES[emotion] };
+  }
+
+  setSignal(signal: AppSignal): void {
+    const posture = SIGNAL_POSTURES[signal];
+    if (posture === this.posture) return;
+    this.posture = posture;
+    this.gazeSide = Math.random() < 0.5 ? -1 : 1;
+    // A change of state is a natural moment to blink
+    if (this.blinkAge < 0 && Math.random() < 0.6) this.nextBlink = Math.min(this.nextBlink, 0.1);
+  }
+
+  /**
+   * Trigger a blink now, e.g. on a glance or an emotion change
+   */
+  blink(): void {
+    if (this.blinkAge < 0) this.nextBlink = 0;
+  }
+
+  /**
+   * Advance by `delta` seconds and return the pose to apply this frame
+   */
+  update(delta: number): IdlePose {
+    const { profile, posture } = this;
+    this.time += delta;
+
+    // Ease towards the posture of the current state and emotion
+    this.lean = approach(this.lean, posture.lean, delta, POSTURE_EASE);
+    this.postureHead = {
+      x: approach(this.postureHead.x, posture.head.x, delta, POSTURE_EASE),
+      y: approach(this.postureHead.y, posture.head.y * this.gazeSide, delta, POSTURE_EASE),
+      z: approach(this.postureHead.z, posture.head.z * this.gazeSide, delta, POSTURE_EASE),
+    };
+    this.postureGaze = {
+      x: approach(this.postureGaze.x, posture.gaze.x, delta, POSTURE_EASE),
+      y: approach(this.postureGaze.y, posture.gaze.y * this.gazeSide, delta, POSTURE_EASE),
+    };
+    this.restlessness = approach(this.restlessness, posture.restlessness, delta, POSTURE_EASE);
+    this.tilt = approach(this.tilt, profile.headTilt, delta, POSTURE_EASE);
+    this.drop = approach(this.drop, profile.headDrop, delta, POSTURE_EASE);
+
+    this.breathPhase += delta * (profile.breathsPerMinute / 60) * Math.PI * 2;
+    // Inhale a little quicker than exhale
+    const breath = Math.sin(this.breathPhase + 0.25 * Math.sin(this.breathPhase)) * profile.breathDepth;
+
+    this.updateSaccades(delta);
+    this.updateShift(delta);
+    const sway = profile.headSway * this.restlessness;
+
+    return {
+      breath,
+      hips: { offset: this.shift * 0.02, roll: this.shift * 0.025 },
+      spine: { x: this.lean, y: 0, z: -this.shift * 0.02 },
+      chest: { x: -breath * 0.012, y: 0, z: -this.shift * 0.01 },
+      head: {
+        x: this.postureHead.x + this.drop + Math.sin(this.time * 0.6) * sway,
+        y: this.postureHead.y + this.glance + Math.sin(this.time * 0.23 + 1) * sway * 0.8,
+        z: this.postureHead.z + this.tilt + Math.sin(this.time * 0.4) * sway * 0.7 - this.shift * 0.015,
+      },
+      eyes: { x: this.eyes.x + this.postureGaze.x, y: this.eyes.y + this.postureGaze.y },
+      blink: this.updateBlink(delta),
+    };
+  }
+
+  private updateBlink(delta: number): number {
+    if (this.blinkAge < 0) {
+      this.nextBlink -= delta;
+      if (this.nextBlink > 0) return 0;
+      this.blinkAge = 0;
+      this.pendingDoubleBlink = Math.random() < this.profile.doubleBlinkChance;
+    }
+
+    this.blinkAge += delta;
+    const age = this.blinkAge;
+    if (age < BLINK_CLOSE) return age / BLINK_CLOSE;
+    if (age < BLINK_CLOSE + BLINK_OPEN) return 1 - (age - BLINK_CLOSE) / BLINK_OPEN;
+
+    this.blinkAge = -1;
+    if (this.pendingDoubleBlink) {
+      this.pendingDoubleBlink = false;
+      this.nextBlink = DOUBLE_BLINK_GAP;
+    } else {
+      const [min, max] = this.profile.blinkInterval;
+      this.nextBlink = random(min, max);
+    }
+    return 0;
+  }
+
+  private updateSaccades(delta: number): void {
+    const { profile } = this;
+    this.nextSaccade -= delta * this.restlessness;
+    if (this.nextSaccade <= 0) {
+      this.nextSaccade = wait(profile.saccadeInterval);
+      const range = profile.saccadeRange * Math.min(this.restlessness, 1);
+      if (this.glanceLeft <= 0 && Math.random() < profile.glanceChance * Math.min(this.restlessness, 1)) {
+        // Look away with the head leading, then come back
+        const side = Math.random() < 0.5 ? -1 : 1;
+        this.glanceTarget = side * random(0.15, 0.3);
+        this.glanceLeft = random(0.8, 1.8);
+        this.saccadeTarget = { x: random(-0.3, 0.3) * range, y: side * range * 1.5 };
+        if (Math.random() < 0.5) this.blink();
+      } else {
+        // Mostly small moves around the user's face
+        this.saccadeTarget = { x: random(-0.5, 0.5) * range, y: random(-1, 1) * range };
+      }
+    }
+
+    if (this.glanceLeft > 0) {
+      this.glanceLeft -= delta;
+      if (this.glanceLeft <= 0) {
+        this.glanceTarget = 0;
+        this.saccadeTarget = { x: 0, y: 0 };
+      }
+    }
+
+    this.glance = approach(this.glance, this.glanceTarget, delta, GLANCE_EASE);
+    this.eyes = {
+      x: approach(this.eyes.x, this.saccadeTarget.x, delta, SACCADE_EASE),
+      y: approach(this.eyes.y, this.saccadeTarget.y, delta, SACCADE_EASE),
+    };
+  }
+
+  private updateShift(delta: number): void {
+    this.nextShift -= delta;
+    if (this.nextShift <= 0) {
+      this.nextShift = wait(this.profile.shiftInterval);
+      // Settle onto the other foot, or back to the middle now and then
+      const side = this.shiftTarget > 0 ? -1 : 1;
+      this.shiftTarget = Math.random() < 0.25 ? 0 : side * random(0.5, 1) * this.profile.shiftAmount;
+    }
+    this.shift = approach(this.shift, this.shiftTarget, delta, SHIFT_EASE);
+  }
+}
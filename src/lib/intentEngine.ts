@@ -0,0 +1,305 @@
+/**
+ * Offline Intent Engine
+ * Scores response-pack intents against a message and keeps dialogue state (context, slots) across turns
+ */
+
+import { canFill, detectLocale, fillPlaceholders, PackReply, pickReply, ResponseIntent, ResponsePack, ResponsePackRegistry, ResponsePattern, ResponseSlot, responsePacks } from './responsePacks';
+import { words } from './tokenize';
+
+interface PendingSlot {
+  intent: ResponseIntent;
+  slot: ResponseSlot;
+}
+
+export interface DialogueState {
+  turn: number;
+  context?: string;
+  // Last user turn on which the context still applies
+  contextUntil: number;
+  // Everything the user has told Miku this session, by slot name
+  slots: Record<string, string>;
+  // A question Miku asked and is waiting on
+  pending?: PendingSlot;
+}
+
+export interface IntentMatch {
+  intent: ResponseIntent;
+  score: number;
+}
+
+// A pattern hit: its score and the message words it covered
+interface Hit {
+  score: number;
+  covered: string[];
+}
+
+// The message as word patterns see it
+interface MessageWords {
+  tokens: string[];
+  // Whether each token follows a negator in its clause ("not sad")
+  negated: boolean[];
+  // Every word the packs' word patterns use; such a word is never read as a typo of another
+  lexicon: Set<string>;
+}
+
+type Matcher = (text: string, message: MessageWords) => Hit | null;
+
+// Scores for one pattern hit; anything below MIN_SCORE is ignored
+const EXACT_SCORE = 1;
+const KEYWORD_SCORE = 0.9;
+const FUZZY_SCORE = 0.7;
+const MIN_SCORE = 0.6;
+// Each extra message word the patterns cover adds a little confidence; a word counts once however many patterns hit it
+const EXTRA_WORD_BONUS = 0.15;
+// A follow-up that fits the active context beats a generic intent
+const CONTEXT_BONUS = 0.5;
+// Intents without patterns take any message while their context is active, but lose to a real hit
+const CONTEXT_ONLY_SCORE = MIN_SCORE;
+// Answers to a slot question longer than this are treated as a new topic
+const SLOT_ANSWER_MAX_WORDS = 8;
+const SLOT_VALUE_MAX_LENGTH = 60;
+// A word pattern preceded by one of these within this many words of its clause does not match
+const NEGATORS = new Set(['not', 'no', 'never', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'aint', 'cant', 'cannot', 'wont', 'hardly']);
+const NEGATION_WINDOW = 3;
+const CLAUSE_PUNCTUATION = /[,;:.!?\n、。！？]+/;
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps)
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Short words must match exactly; "hi" is one typo away from too many things
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 5 ? 1 : 0);
+
+/**
+ * Tokens of the message, marking those a negator earlier in the same clause applies to
+ */
+function readMessage(message: string, lexicon: Set<string>): MessageWords {
+  const tokens: string[] = [];
+  const negated: boolean[] = [];
+  for (const clause of message.split(CLAUSE_PUNCTUATION)) {
+    const clauseTokens = words(clause);
+    clauseTokens.forEach((token, i) => {
+      tokens.push(token);
+      negated.push(clauseTokens.slice(Math.max(0, i - NEGATION_WINDOW), i).some(word => NEGATORS.has(word)));
+    });
+  }
+  return { tokens, negated, lexicon };
+}
+
+function compilePattern(pattern: ResponsePattern): Matcher {
+  switch (pattern.type) {
+    case 'keyword': {
+      const keyword = pattern.value.toLowerCase();
+      return text => (text.toLowerCase().includes(keyword) ? { score: KEYWORD_SCORE, covered: coveredBy(keyword) } : null);
+    }
+    case 'regex': {
+      const regex = new RegExp(pattern.value, pattern.flags ?? 'i');
+      return text => {
+        const match = regex.exec(text);
+        return match ? { score: EXACT_SCORE, covered: coveredBy(match[0]) } : null;
+      };
+    }
+    case 'word': {
+      const phrase = words(pattern.value);
+      // Scripts without spaces cannot be split into words; match them anywhere
+      if (phrase.length === 0) return compilePattern({ type: 'keyword', value: pattern.value });
+      const fuzzy = pattern.fuzzy ?? true;
+
+      // Phrases match as a contiguous run of whole words
+      return (_text, { tokens, negated, lexicon }) => {
+        let best: Hit | null = null;
+        for (let start = 0; start + phrase.length <= tokens.length; start++) {
+          if (negated[start]) continue;
+          let score = EXACT_SCORE;
+          for (let k = 0; k < phrase.length && score > 0; k++) {
+            const token = tokens[start + k];
+            const expected = phrase[k];
+            if (token === expected) continue;
+            const mismatch = !fuzzy || lexicon.has(token) || token[0] !== expected[0]
+              || editDistance(token, expected) > allowedTypos(expected);
+            score = mismatch ? 0 : FUZZY_SCORE;
+          }
+          if (score > (best?.score ?? 0)) best = { score, covered: tokens.slice(start, start + phrase.length) };
+          if (best?.score === EXACT_SCORE) break;
+        }
+        return best;
+      };
+    }
+  }
+}
+
+// Text without word breaks (e.g. Japanese) covers itself as one word
+const coveredBy = (matched: string) => {
+  const covered = words(matched);
+  return covered.length > 0 ? covered : [matched.toLowerCase()];
+};
+
+const cleanSlotValue = (value: string) =>
+  value
+    .replace(/[\p{Extended_Pictographic}~♡♥]/gu, '')
+    .replace(/[\s.!?,;:。！？、]+$/u, '')
+    .trim()
+    .slice(0, SLOT_VALUE_MAX_LENGTH);
+
+export class IntentEngine {
+  private state: DialogueState = { turn: 0, contextUntil: 0, slots: {} };
+  private matchers = new WeakMap<ResponseIntent, Matcher[]>();
+  private lexicons = new WeakMap<ResponsePack, Set<string>>();
+  private packIds?: string[];
+
+  constructor(private registry: ResponsePackRegistry = responsePacks) {}
+
+  get dialogue(): Readonly<DialogueState> {
+    return this.state;
+  }
+
+  /**
+   * Forget the conversation so far (context, slots and any pending question)
+   */
+  reset(): void {
+    this.state = { turn: 0, contextUntil: 0, slots: {} };
+  }
+
+  /**
+   * Only match intents from these packs; every pack until this is called
+   */
+  usePacks(ids: string[]): void {
+    this.packIds = ids;
+  }
+
+  /**
+   * Every intent scoring above the threshold, best first
+   */
+  rank(message: string, locale: string = detectLocale(message)): IntentMatch[] {
+    const packs = this.registry.packsFor(locale, this.packIds);
+    const read = readMessage(message, new Set(packs.flatMap(pack => [...this.lexiconFor(pack)])));
+    const activeContext = this.state.turn <= this.state.contextUntil ? this.state.context : undefined;
+    const matches: IntentMatch[] = [];
+
+    for (const pack of packs) {
+      for (const intent of pack.intents) {
+        if (intent.requiresContext && intent.requiresContext !== activeContext) continue;
+
+        if (intent.patterns.length === 0) {
+          matches.push({ intent, score: CONTEXT_ONLY_SCORE + intent.priority });
+          continue;
+        }
+
+        const hits = this.matchersFor(intent).map(match => match(message, read)).filter(hit => hit !== null);
+        if (hits.length === 0) continue;
+
+        const best = Math.max(...hits.map(hit => hit.score));
+        if (best < MIN_SCORE) continue;
+
+        const covered = new Set(hits.flatMap(hit => hit.covered));
+        const score = best
+          + EXTRA_WORD_BONUS * (covered.size - 1)
+          + (intent.requiresContext ? CONTEXT_BONUS : 0)
+          + intent.priority;
+        matches.push({ intent, score });
+      }
+    }
+
+    // Stable sort keeps pack order for ties
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Reply for the user's message, or null when no intent applies
+   */
+  respond(message: string, locale: string = detectLocale(message)): PackReply | null {
+    this.state.turn++;
+
+    const pending = this.state.pending;
+    this.state.pending = undefined;
+    if (pending) {
+      const value = this.extractSlot(pending.slot, message) ?? this.answerToQuestion(message, locale);
+      if (value) {
+        this.state.slots[pending.slot.name] = value;
+        return this.complete(pending.intent, message);
+      }
+    }
+
+    const best = this.rank(message, locale)[0];
+    return best ? this.complete(best.intent, message) : null;
+  }
+
+  private complete(intent: ResponseIntent, message: string): PackReply {
+    for (const slot of intent.slots) {
+      const value = this.extractSlot(slot, message);
+      if (value) this.state.slots[slot.name] = value;
+    }
+
+    if (intent.setsContext) {
+      this.state.context = intent.setsContext;
+      this.state.contextUntil = this.state.turn + intent.contextTurns;
+    }
+
+    const missing = intent.slots.find(slot => slot.required && this.state.slots[slot.name] === undefined);
+    if (missing?.prompt) {
+      this.state.pending = { intent, slot: missing };
+      const prompt = pickReply(missing.prompt);
+      return { content: prompt.text, emotion: prompt.emotion ?? intent.emotion, intentId: intent.id, context: intent.setsContext };
+    }
+
+    const usable = intent.replies.filter(reply => canFill(reply, this.state.slots));
+    const reply = pickReply(usable.length > 0 ? usable : intent.replies);
+    return {
+      content: fillPlaceholders(reply.text, this.state.slots).replace(/\s{2,}/g, ' ').trim(),
+      emotion: reply.emotion ?? intent.emotion,
+      intentId: intent.id,
+      context: intent.setsContext,
+    };
+  }
+
+  private extractSlot(slot: ResponseSlot, message: string): string | undefined {
+    for (const pattern of slot.patterns) {
+      const value = new RegExp(pattern, 'iu').exec(message)?.[1];
+      if (value && cleanSlotValue(value)) return cleanSlotValue(value);
+    }
+    return undefined;
+  }
+
+  /**
+   * A short reply right after Miku asked for something is the answer, unless it is clearly a new request
+   */
+  private answerToQuestion(message: string, locale: string): string | undefined {
+    if (words(message).length > SLOT_ANSWER_MAX_WORDS) return undefined;
+    if (this.rank(message, locale).some(match => match.score >= EXACT_SCORE)) return undefined;
+    return cleanSlotValue(message) || undefined;
+  }
+
+  private lexiconFor(pack: ResponsePack): Set<string> {
+    let lexicon = this.lexicons.get(pack);
+    if (!lexicon) {
+      const patterns = pack.intents.flatMap(intent => intent.patterns).filter(pattern => pattern.type === 'word');
+      lexicon = new Set(patterns.flatMap(pattern => words(pattern.value)));
+      this.lexicons.set(pack, lexicon);
+    }
+    return lexicon;
+  }
+
+  private matchersFor(intent: ResponseIntent): Matcher[] {
+    let matchers = this.matchers.get(intent);
+    if (!matchers) {
+      matchers = intent.patterns.map(compilePattern);
+      this.matchers.set(intent, matchers);
+    }
+    return matchers;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Lip-sync Driver
+ * Turns the sentence being spoken into a mouth level and viseme weights: classified from the audio
+ * when the engine plays real audio, otherwise read from the text and kept in step by boundary events
+ */
+
+import { audioAnalyzer, CLOSED_MOUTH, VisemeWeights } from './audioAnalyzer';
+import { buildVisemeTrack, VisemeTrack, visemeWeightsAt, wordStartAt } from './visemeTimeline';
+import { SpeechStart } from './ttsService';
+
+type LipSyncMode = 'idle' | 'audio' | 'text';
+
+export class LipSync {
+  private mode: LipSyncMode = 'idle';
+  private level = 0;
+  private weights: VisemeWeights = { ...CLOSED_MOUTH };
+  private listeners = new Set<(level: number) => void>();
+  private frameId: number | null = null;
+  private track: VisemeTrack | null = null;
+  // Track time pinned to a wall-clock moment; boundary events move the pin
+  private anchorTime = 0;
+  private anchorAt = 0;
+
+  get currentMode(): LipSyncMode {
+    return this.mode;
+  }
+
+  /**
+   * Current mouth shape; cheap enough to read every animation frame
+   */
+  get visemes(): VisemeWeights {
+    return this.weights;
+  }
+
+  subscribe(listener: (level: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * A sentence started playing; measure its audio when possible, else follow its text
+   */
+  begin(speech: SpeechStart): void {
+    if (speech.audio && audioAnalyzer.isRunning && audioAnalyzer.connectAudioElement(speech.audio)) {
+      this.mode = 'audio';
+      audioAnalyzer.resetVisemes();
+    } else {
+      this.mode = 'text';
+      this.track = buildVisemeTrack(speech.text, speech.rate);
+      this.anchorTime = 0;
+      this.anchorAt = performance.now();
+    }
+    if (this.frameId === null) this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  /**
+   * The engine reached the word at `charIndex`; re-sync the track to it
+   */
+  boundary(charIndex: number): void {
+    if (this.mode !== 'text' || !this.track) return;
+    const start = wordStartAt(this.track, charIndex);
+    if (start === null) return;
+    this.anchorTime = start;
+    this.anchorAt = performance.now();
+  }
+
+  /**
+   * The sentence finished or was cut off; close the mouth
+   */
+  end(): void {
+    this.mode = 'idle';
+    this.track = null;
+    this.weights = { ...CLOSED_MOUTH };
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.publish(0);
+  }
+
+  private tick = (): void => {
+    if (this.mode === 'audio') {
+      this.weights = audioAnalyzer.getVisemes();
+      this.publish(1 - this.weights.closed);
+    } else if (this.mode === 'text' && this.track) {
+      const time = this.anchorTime + (performance.now() - this.anchorAt) / 1000;
+      this.weights = visemeWeightsAt(this.track, time);
+      this.publish(1 - this.weights.closed);
+    }
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private publish(level: number): void {
+    // Skip imperceptible changes so subscribers don't re-render every frame for nothing
+    if (Math.abs(level - this.level) < 0.01 && level !== 0) return;
+    if (level === 0 && this.level === 0) return;
+    this.level = level;
+    this.listeners.forEach(listener => listener(level));
+  }
+}
+
+export const lipSync = new LipSync();
@@ -0,0 +1,97 @@
+/**
+ * LLM Provider Registry
+ * Holds the runtime-selected backend configuration and builds providers on demand
+ */
+
+import { LLMProvider, ProviderConfig, ProviderType } from './types';
+import { LocalResponder, LocalRulesProvider } from './localProvider';
+import { LlamaCppProvider, OpenAICompatibleProvider } from './openaiProvider';
+import { OllamaProvider } from './ollamaProvider';
+
+export type { LLMProvider, ProviderConfig, ProviderMessage, ProviderResult, ProviderType } from './types';
+export type { LocalResponder } from './localProvider';
+
+export const PROVIDER_DEFAULTS: Record<ProviderType, { label: string; baseUrl: string; model: string; contextWindow: number }> = {
+  local: { label: 'Local rules (offline)', baseUrl: '', model: 'miku-local', contextWindow: 2048 },
+  openai: { label: 'OpenAI-compatible', baseUrl: 'https://api.openai.com', model: 'gpt-4o-mini', contextWindow: 8192 },
+  ollama: { label: 'Ollama', baseUrl: 'http://localhost:11434', model: 'llama3.1', contextWindow: 4096 },
+  llamacpp: { label: 'llama.cpp server', baseUrl: 'http://localhost:8080', model: 'default', contextWindow: 4096 },
+};
+
+export const isProviderType = (value: unknown): value is ProviderType =>
+  typeof value === 'string' && value in PROVIDER_DEFAULTS;
+
+function defaultsFor(type: ProviderType): ProviderConfig {
+  return {
+    type,
+    baseUrl: PROVIDER_DEFAULTS[type].baseUrl,
+    model: PROVIDER_DEFAULTS[type].model,
+    temperature: 0.8,
+    maxTokens: 256,
+    contextWindow: PROVIDER_DEFAULTS[type].contextWindow,
+  };
+}
+
+/**
+ * Backend from the build environment, used until the user picks one in the settings
+ * API keys are never read from the environment, since Vite would bake them into the bundle
+ */
+export function providerConfigFromEnv(): ProviderConfig {
+  const env = import.meta.env;
+  const type = isProviderType(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'local';
+  const config = defaultsFor(type);
+  const contextWindow = Number(env.VITE_AI_CONTEXT_WINDOW);
+
+  return {
+    ...config,
+    baseUrl: env.VITE_AI_BASE_URL || config.baseUrl,
+    model: env.VITE_AI_MODEL || config.model,
+    contextWindow: contextWindow > 0 ? contextWindow : config.contextWindow,
+  };
+}
+
+/**
+ * Apply a partial update; switching provider type resets the endpoint, model and context window
+ * to that provider's defaults unless the patch supplies them
+ */
+export function mergeProviderConfig(base: ProviderConfig, patch: Partial<ProviderConfig>): ProviderConfig {
+  if (patch.type && patch.type !== base.type) {
+    const defaults = defaultsFor(patch.type);
+    return {
+      ...base,
+      baseUrl: defaults.baseUrl,
+      model: defaults.model,
+      contextWindow: defaults.contextWindow,
+      ...patch,
+    };
+  }
+  return { ...base, ...patch };
+}
+
+let activeConfig: ProviderConfig = providerConfigFromEnv();
+
+export function getProviderConfig(): ProviderConfig {
+  return activeConfig;
+}
+
+export function setProviderConfig(patch: Partial<ProviderConfig>): ProviderConfig {
+  activeConfig = mergeProviderConfig(activeConfig, patch);
+  return activeConfig;
+}
+
+/**
+ * Build a provider for the given config
+ */
+export function createProvider(config: ProviderConfig, localResponder: LocalResponder): LLMProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'llamacpp':
+      return new LlamaCppProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'local':
+    default:
+      return new LocalRulesProvider(localResponder);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Local rules provider
+ * Wraps the keyword engine and simulates token streaming so callers see one API
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { LLMProvider, ProviderMessage, ProviderResult, ProviderType } from './types';
+
+export type LocalResponder = (userMessage: string) => { content: string; emotion: EmotionType };
+
+export class LocalRulesProvider implements LLMProvider {
+  readonly type: ProviderType = 'local';
+
+  constructor(private respond: LocalResponder) {}
+
+  async streamChat(
+    messages: ProviderMessage[],
+    onToken: (token: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderResult> {
+    const lastUserMessage = messages.filter(m => m.role === 'user').pop();
+    const { content, emotion } = this.respond(lastUserMessage?.content ?? '');
+
+    const words = content.split(' ');
+    for (let i = 0; i < words.length; i++) {
+      if (abortSignal?.aborted) throw new Error('Request aborted');
+
+      onToken(words[i] + (i < words.length - 1 ? ' ' : ''));
+
+      // Variable typing speed for natural feel
+      const delay = 30 + Math.random() * 50;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    return { content, emotion };
+  }
+}
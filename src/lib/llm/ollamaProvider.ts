@@ -0,0 +1,59 @@
+/**
+ * Ollama provider
+ * Streams newline-delimited JSON from /api/chat
+ */
+
+import { LLMProvider, ProviderConfig, ProviderMessage, ProviderResult, ProviderType } from './types';
+import { joinUrl, readNDJSON } from './streaming';
+
+interface OllamaChatChunk {
+  message?: { role: string; content: string };
+  done?: boolean;
+  error?: string;
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly type: ProviderType = 'ollama';
+
+  constructor(private config: ProviderConfig) {}
+
+  async streamChat(
+    messages: ProviderMessage[],
+    onToken: (token: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderResult> {
+    const response = await fetch(joinUrl(this.config.baseUrl, '/api/chat'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        stream: true,
+        options: {
+          temperature: this.config.temperature,
+          num_predict: this.config.maxTokens,
+          num_ctx: this.config.contextWindow,
+        },
+      }),
+      signal: abortSignal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`ollama request failed: ${response.status} ${response.statusText}`);
+    }
+
+    let content = '';
+    for await (const chunk of readNDJSON<OllamaChatChunk>(response.body)) {
+      if (chunk.error) throw new Error(chunk.error);
+
+      const token = chunk.message?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      if (chunk.done) break;
+    }
+
+    return { content };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI itself and any server exposing /v1/chat/completions
+ */
+
+import { LLMProvider, ProviderConfig, ProviderMessage, ProviderResult, ProviderType } from './types';
+import { joinUrl, readSSE } from './streaming';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: ProviderType = 'openai';
+
+  constructor(protected config: ProviderConfig) {}
+
+  protected get endpoint(): string {
+    return joinUrl(this.config.baseUrl, '/v1/chat/completions');
+  }
+
+  protected buildBody(messages: ProviderMessage[]): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      messages,
+      stream: true,
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+    };
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  async streamChat(
+    messages: ProviderMessage[],
+    onToken: (token: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderResult> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(messages)),
+      signal: abortSignal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`${this.type} request failed: ${response.status} ${response.statusText}`);
+    }
+
+    let content = '';
+    for await (const data of readSSE(response.body)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.error) {
+        throw new Error(chunk.error.message || `${this.type} stream error`);
+      }
+
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    }
+
+    return { content };
+  }
+}
+
+/**
+ * llama.cpp server (llama-server)
+ * Uses its OpenAI-compatible endpoint so the model's own chat template is applied
+ */
+export class LlamaCppProvider extends OpenAICompatibleProvider {
+  readonly type: ProviderType = 'llamacpp';
+
+  protected buildBody(messages: ProviderMessage[]): Record<string, unknown> {
+    return {
+      ...super.buildBody(messages),
+      // Reuse the KV cache for the shared system prompt + history prefix
+      cache_prompt: true,
+    };
+  }
+}
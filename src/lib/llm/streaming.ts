@@ -0,0 +1,75 @@
+/**
+ * Streaming helpers for fetch response bodies
+ * Server-Sent Events (OpenAI, llama.cpp) and newline-delimited JSON (Ollama)
+ */
+
+/**
+ * Yield complete lines from a byte stream, tolerating chunks split mid-line
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) yield line;
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield the data payload of each SSE event
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) yield dataLines.join('\n');
+      dataLines = [];
+      continue;
+    }
+
+    // Comment lines are keep-alives
+    if (line.startsWith(':')) continue;
+
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length > 0) yield dataLines.join('\n');
+}
+
+/**
+ * Yield each parsed object of a newline-delimited JSON stream
+ */
+export async function* readNDJSON<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    const trimmed = line.trim();
+    if (trimmed) yield JSON.parse(trimmed) as T;
+  }
+}
+
+/**
+ * Join a base URL and an endpoint path without doubling slashes or version prefixes
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  const base = baseUrl.replace(/\/+$/, '');
+  if (path.startsWith('/v1/') && base.endsWith('/v1')) {
+    return base + path.slice(3);
+  }
+  return base + path;
+}
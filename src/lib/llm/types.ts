@@ -0,0 +1,42 @@
+/**
+ * LLM Provider Types
+ * Shared contracts for every chat backend Miku can talk to
+ */
+
+import { EmotionType } from '@/store/appStore';
+
+export type ProviderType = 'local' | 'openai' | 'ollama' | 'llamacpp';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Prompt plus reply, in tokens; the context builder keeps requests inside it
+  contextWindow: number;
+}
+
+/**
+ * Wire-level message, as produced by the context builder
+ */
+export interface ProviderMessage {
+  role: string;
+  content: string;
+}
+
+export interface ProviderResult {
+  content: string;
+  // Only the local engine knows its emotion up front; remote replies are classified afterwards
+  emotion?: EmotionType;
+}
+
+export interface LLMProvider {
+  readonly type: ProviderType;
+  streamChat(
+    messages: ProviderMessage[],
+    onToken: (token: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ProviderResult>;
+}
@@ -0,0 +1,131 @@
+/**
+ * Memory Extraction
+ * Pulls durable facts about the user (name, likes, dislikes, important dates) out of chat messages
+ */
+
+export type MemoryKind = 'name' | 'preference' | 'dislike' | 'date';
+
+export interface ExtractedFact {
+  kind: MemoryKind;
+  value: string;
+  // For dates: what the date is for ("birthday", "exam")
+  label?: string;
+  confidence: number;
+}
+
+interface ExtractionRule {
+  kind: MemoryKind;
+  pattern: RegExp;
+  confidence: number;
+  // Capture group holding the label (dates only)
+  labelGroup?: number;
+  valueGroup: number;
+  // The value must be written capitalized, for phrases that also occur in ordinary speech ("call me maybe")
+  capitalized?: boolean;
+}
+
+// A leading "私は" or "猫が" topic the Japanese like/dislike object follows; it is not part of the value
+const JA_TOPIC = '(?:[^\\s、。！？]+?[はが]|^|[\\s、。！？])';
+const JA_OBJECT = '([^\\s、。！？]+?)(?:が|は)';
+const JA_NEGATION = '(?:じゃない|ではない|じゃありません|ではありません|くない)';
+
+// Order matters: negated forms must run before their positive counterparts
+const RULES: ExtractionRule[] = [
+  { kind: 'name', pattern: /\bmy name(?:'s| is)\s+([a-z][\w'-]*)/i, confidence: 0.95, valueGroup: 1 },
+  { kind: 'name', pattern: /\b(?:call me|i go by)\s+([a-z][\w'-]*)/i, confidence: 0.8, valueGroup: 1, capitalized: true },
+  { kind: 'name', pattern: /(?:私の名前は|僕の名前は|俺の名前は)\s*([^\s、。！？]+?)(?:です|だよ|だ)?(?:[、。！？]|$)/, confidence: 0.95, valueGroup: 1 },
+  { kind: 'name', pattern: /([^\s、。！？]+?)って呼んで/, confidence: 0.8, valueGroup: 1 },
+
+  { kind: 'dislike', pattern: /\bi (?:don't|do not|really don't) (?:like|love|enjoy)\s+([^.!?\n。！？]+)/i, confidence: 0.8, valueGroup: 1 },
+  { kind: 'dislike', pattern: /\bi (?:hate|dislike|can't stand|cannot stand|despise)\s+([^.!?\n。！？]+)/i, confidence: 0.85, valueGroup: 1 },
+  { kind: 'dislike', pattern: new RegExp(`${JA_TOPIC}${JA_OBJECT}(?:大好き|好き)${JA_NEGATION}`), confidence: 0.8, valueGroup: 1 },
+  { kind: 'dislike', pattern: new RegExp(`${JA_TOPIC}${JA_OBJECT}(?:嫌い|苦手)(?!${JA_NEGATION})`), confidence: 0.8, valueGroup: 1 },
+
+  { kind: 'preference', pattern: /\bmy fav(?:ou?rite)? [\w\s]{1,20}? is\s+([^.!?\n。！？]+)/i, confidence: 0.9, valueGroup: 1 },
+  { kind: 'preference', pattern: /\bi (?:really )?(?:like|love|enjoy|adore)\s+([^.!?\n。！？]+)/i, confidence: 0.75, valueGroup: 1 },
+  { kind: 'preference', pattern: /\bi'm (?:a (?:big |huge )?fan of|into|obsessed with)\s+([^.!?\n。！？]+)/i, confidence: 0.75, valueGroup: 1 },
+  { kind: 'preference', pattern: new RegExp(`${JA_TOPIC}${JA_OBJECT}(?:大好き|好き)(?!${JA_NEGATION})`), confidence: 0.75, valueGroup: 1 },
+
+  {
+    kind: 'date',
+    pattern: /\bmy ([\w\s]{2,30}?) (?:is|was|will be|'s) (?:on |this |next )?((?:mon|tues|wednes|thurs|fri|satur|sun)day|tomorrow|today|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?|\d{1,2}(?:st|nd|rd|th)? (?:of )?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*|\d{1,2}[/-]\d{1,2}(?:[/-]\d{2,4})?)/i,
+    confidence: 0.85,
+    labelGroup: 1,
+    valueGroup: 2,
+  },
+  { kind: 'date', pattern: /(誕生日|試験|テスト|記念日)は\s*([0-9０-９]{1,2}月[0-9０-９]{1,2}日|明日|来週)/, confidence: 0.85, labelGroup: 1, valueGroup: 2 },
+];
+
+// Messages are read clause by clause, so "my name is Alex and I like pizza" yields both facts.
+// A period after a month abbreviation ("Jan. 5th") or an initial ("J. Smith") ends nothing
+const CLAUSE_BREAK = /(?<!\b(?:jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec|[a-z]))\.+|[!?,;:\n。！？、]+|\s+(?:and|but|or|because|since|though|although|when|whenever|while|if|so)\s+/i;
+const VALUE_STOPS = /\s+(?:lol|haha)\b.*$/i;
+const TRAILING_FILLER = /\s+(?:too|also|a lot|so much|very much|really|anymore|at all)$/i;
+const NAME_STOPWORDS = new Set([
+  'a', 'an', 'the', 'not', 'just', 'so', 'very', 'really', 'tired', 'sad', 'happy', 'fine', 'okay', 'ok', 'back',
+  'here', 'maybe', 'later', 'now', 'anytime', 'anything', 'whatever', 'please', 'tomorrow', 'sometime', 'when', 'if',
+]);
+// A value made only of these says nothing ("I like it", "I love that")
+const VALUE_STOPWORDS = new Set([
+  'it', 'that', 'this', 'these', 'those', 'them', 'him', 'her', 'me', 'us', 'you', 'one', 'ones', 'some', 'something',
+  'anything', 'everything', 'nothing', 'stuff', 'things', 'a', 'an', 'the', 'to', 'so', 'very', 'much', 'lot', 'too',
+]);
+const MAX_VALUE_WORDS = 6;
+
+function cleanValue(raw: string): string {
+  let value = raw.replace(VALUE_STOPS, '');
+  value = value.replace(/[\p{Extended_Pictographic}~♡♥]/gu, '');
+  for (let i = 0; i < 2; i++) value = value.replace(TRAILING_FILLER, '');
+  const words = value.trim().split(/\s+/).slice(0, MAX_VALUE_WORDS);
+  return words.join(' ').trim();
+}
+
+const isStopwords = (value: string) => value.toLowerCase().split(/\s+/).every(word => VALUE_STOPWORDS.has(word));
+
+const capitalize = (value: string) =>
+  value.replace(/(^|\s)([a-z])/g, (_match, space: string, letter: string) => space + letter.toUpperCase());
+
+/**
+ * Extract every fact a single user message states about the user
+ */
+export function extractFacts(message: string): ExtractedFact[] {
+  return message.split(CLAUSE_BREAK).flatMap(extractFromClause);
+}
+
+function extractFromClause(clause: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  const claimed: [number, number][] = [];
+
+  for (const rule of RULES) {
+    const match = rule.pattern.exec(clause);
+    if (!match || match.index === undefined) continue;
+
+    // Skip matches overlapping an earlier, more specific rule ("i don't like" vs "i like")
+    const start = match.index;
+    const end = start + match[0].length;
+    if (claimed.some(([s, e]) => start < e && end > s)) continue;
+
+    const raw = match[rule.valueGroup] ?? '';
+    if (rule.capitalized && !/^\p{Lu}/u.test(raw)) continue;
+    let value = cleanValue(raw);
+    if (!value || isStopwords(value)) continue;
+
+    if (rule.kind === 'name') {
+      if (NAME_STOPWORDS.has(value.toLowerCase())) continue;
+      value = capitalize(value);
+    }
+
+    // Liking Miku herself is affection, not a preference worth remembering
+    if ((rule.kind === 'preference' || rule.kind === 'dislike') && /^(?:you|miku)\b/i.test(value)) continue;
+
+    claimed.push([start, end]);
+    facts.push({
+      kind: rule.kind,
+      value,
+      label: rule.labelGroup ? cleanValue(match[rule.labelGroup]).toLowerCase() : undefined,
+      confidence: rule.confidence,
+    });
+  }
+
+  return facts;
+}
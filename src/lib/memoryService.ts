@@ -0,0 +1,255 @@
+/**
+ * Long-term Memory Service
+ * Keeps typed facts about the user in IndexedDB and surfaces the relevant ones to the chat engines
+ */
+
+import { extractFacts, ExtractedFact, MemoryKind } from './memoryExtractor';
+import { openDatabase, promisify, STORES, transactionDone } from './db';
+import { tokenize } from './tokenize';
+
+export type { MemoryKind } from './memoryExtractor';
+
+export interface MemoryFact {
+  id: string;
+  kind: MemoryKind;
+  value: string;
+  label?: string;
+  confidence: number;
+  mentions: number;
+  createdAt: Date;
+  updatedAt: Date;
+  // Set when the user edits a fact; extraction never overrides it
+  pinned?: boolean;
+}
+
+interface MemoryRecord extends Omit<MemoryFact, 'createdAt' | 'updatedAt'> {
+  createdAt: number;
+  updatedAt: number;
+}
+
+const MIN_CONFIDENCE = 0.2;
+const DEFAULT_RECALL_LIMIT = 8;
+// Relevance boost fades over roughly a month without mentions
+const RECENCY_HALF_LIFE_MS = 1000 * 60 * 60 * 24 * 30;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const toFact = (record: MemoryRecord): MemoryFact => ({
+  ...record,
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt),
+});
+
+const toRecord = (fact: MemoryFact): MemoryRecord => ({
+  ...fact,
+  createdAt: fact.createdAt.getTime(),
+  updatedAt: fact.updatedAt.getTime(),
+});
+
+// Repeated evidence raises confidence without ever reaching certainty
+const reinforce = (current: number, evidence: number) => 1 - (1 - current) * (1 - evidence);
+
+const termSet = (text: string) => new Set(tokenize(text));
+
+export class MemoryService {
+  private facts: MemoryFact[] = [];
+  private listeners = new Set<() => void>();
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load persisted facts (once); safe to call repeatedly
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const db = await openDatabase();
+          const tx = db.transaction(STORES.memories, 'readonly');
+          const records = await promisify<MemoryRecord[]>(tx.objectStore(STORES.memories).getAll());
+          // Facts observed before loading finished take precedence
+          const loaded = records.map(toFact).filter(r => !this.facts.some(f => f.id === r.id));
+          this.facts = [...loaded, ...this.facts];
+          this.emit();
+        } catch (error) {
+          console.warn('[Memory] Persistent memory unavailable:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Snapshot of all facts; identity changes on every update
+   */
+  getAll(): MemoryFact[] {
+    return this.facts;
+  }
+
+  get userName(): string | undefined {
+    return this.facts.find(f => f.kind === 'name')?.value;
+  }
+
+  /**
+   * Learn from a user message; returns the facts that were added or reinforced
+   */
+  observe(message: string): MemoryFact[] {
+    const changed = extractFacts(message).flatMap(fact => this.remember(fact));
+    if (changed.length > 0) {
+      this.emit();
+      this.persist(changed);
+    }
+    return changed;
+  }
+
+  async update(id: string, patch: Partial<Pick<MemoryFact, 'kind' | 'value' | 'label' | 'confidence'>>): Promise<void> {
+    const fact = this.facts.find(f => f.id === id);
+    if (!fact) return;
+
+    const updated: MemoryFact = { ...fact, ...patch, updatedAt: new Date(), pinned: true };
+    this.facts = this.facts.map(f => f.id === id ? updated : f);
+    this.emit();
+    await this.persist([updated]);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.facts = this.facts.filter(f => f.id !== id);
+    this.emit();
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.memories, 'readwrite');
+      tx.objectStore(STORES.memories).delete(id);
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('[Memory] Failed to delete memory:', error);
+    }
+  }
+
+  /**
+   * Facts most relevant to the given text: the name always, then keyword overlap, confidence and recency
+   */
+  recall(query: string, limit: number = DEFAULT_RECALL_LIMIT): MemoryFact[] {
+    const queryTokens = termSet(query);
+    const now = Date.now();
+
+    return this.facts
+      .filter(f => f.confidence >= MIN_CONFIDENCE)
+      .map(fact => {
+        const overlap = [...termSet(`${fact.label ?? ''} ${fact.value}`)].filter(t => queryTokens.has(t)).length;
+        const recency = Math.pow(0.5, (now - fact.updatedAt.getTime()) / RECENCY_HALF_LIFE_MS);
+        const kindBoost = fact.kind === 'name' ? 10 : fact.kind === 'date' ? 0.5 : 0;
+        return { fact, score: kindBoost + overlap * 2 + fact.confidence + recency * 0.5 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ fact }) => fact);
+  }
+
+  /**
+   * Facts sharing at least one keyword with the text, best match first
+   */
+  relatedTo(query: string): MemoryFact[] {
+    const queryTokens = termSet(query);
+    return this.recall(query, this.facts.length).filter(fact =>
+      fact.kind !== 'name' && [...termSet(`${fact.label ?? ''} ${fact.value}`)].some(t => queryTokens.has(t))
+    );
+  }
+
+  /**
+   * Render recalled facts as a system-prompt section; empty when nothing is known
+   */
+  formatForPrompt(query: string, limit?: number): string {
+    const facts = this.recall(query, limit);
+    if (facts.length === 0) return '';
+
+    const lines = facts.map(fact => {
+      switch (fact.kind) {
+        case 'name': return `- Their name is ${fact.value}`;
+        case 'preference': return `- They like ${fact.value}`;
+        case 'dislike': return `- They dislike ${fact.value}`;
+        case 'date': return `- Their ${fact.label ?? 'important date'} is ${fact.value}`;
+      }
+    });
+
+    return `WHAT YOU REMEMBER ABOUT YOUR FRIEND:\n${lines.join('\n')}\nBring these up naturally when relevant; never list them.`;
+  }
+
+  /**
+   * Merge one extracted fact into memory; returns every fact it changed
+   */
+  private remember(extracted: ExtractedFact): MemoryFact[] {
+    const now = new Date();
+    const key = normalize(extracted.value);
+    const changed: MemoryFact[] = [];
+
+    // A new like contradicts a stored dislike of the same thing, and vice versa
+    const opposite: MemoryKind | null =
+      extracted.kind === 'preference' ? 'dislike' : extracted.kind === 'dislike' ? 'preference' : null;
+    if (opposite) {
+      this.facts = this.facts.map(f => {
+        if (f.kind !== opposite || f.pinned || normalize(f.value) !== key) return f;
+        const weakened = { ...f, confidence: f.confidence * 0.3, updatedAt: now };
+        changed.push(weakened);
+        return weakened;
+      });
+    }
+
+    const existing = this.facts.find(f => {
+      if (f.kind !== extracted.kind) return false;
+      // Only one name; a date is identified by what it is for
+      if (f.kind === 'name') return true;
+      if (f.kind === 'date') return f.label === extracted.label;
+      return normalize(f.value) === key;
+    });
+
+    if (existing && existing.pinned) return changed;
+
+    if (existing) {
+      const sameValue = normalize(existing.value) === key;
+      const updated: MemoryFact = {
+        ...existing,
+        value: extracted.value,
+        confidence: sameValue ? reinforce(existing.confidence, extracted.confidence) : extracted.confidence,
+        mentions: existing.mentions + 1,
+        updatedAt: now,
+      };
+      this.facts = this.facts.map(f => f.id === existing.id ? updated : f);
+      return [...changed, updated];
+    }
+
+    const fact: MemoryFact = {
+      id: crypto.randomUUID(),
+      kind: extracted.kind,
+      value: extracted.value,
+      label: extracted.label,
+      confidence: extracted.confidence,
+      mentions: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.facts = [...this.facts, fact];
+    return [...changed, fact];
+  }
+
+  private async persist(facts: MemoryFact[]): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.memories, 'readwrite');
+      const store = tx.objectStore(STORES.memories);
+      facts.forEach(fact => store.put(toRecord(fact)));
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('[Memory] Failed to persist memories:', error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const memoryService = new MemoryService();
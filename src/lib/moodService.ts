@@ -0,0 +1,289 @@
+/**
+ * Mood Service
+ * A continuous valence/arousal state per character. The user's messages and the replies nudge it
+ * toward their emotion; between turns it drifts back to where the character rests, which is the
+ * persona's baseline shifted by a slower long-term mood. The nearest discrete emotion drives the
+ * avatar and voice, and the long-term mood and recent history persist in IndexedDB
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { openDatabase, promisify, STORES, transactionDone } from './db';
+
+// Both axes run from -1 to 1: unpleasant to pleasant, and drowsy to aroused
+export interface MoodPoint {
+  valence: number;
+  arousal: number;
+}
+
+export interface MoodSample extends MoodPoint {
+  timestamp: number;
+}
+
+// How strongly a text expresses each emotion; need not sum to 1
+export type EmotionDistribution = Partial<Record<EmotionType, number>>;
+
+export type MoodSource = 'user' | 'reply';
+
+export interface MoodSnapshot {
+  current: MoodPoint;
+  longTerm: MoodPoint;
+  baseline: MoodPoint;
+  emotion: EmotionType;
+  history: MoodSample[];
+}
+
+interface MoodRecord {
+  characterId: string;
+  current: MoodPoint;
+  longTerm: MoodPoint;
+  updatedAt: number;
+  history: MoodSample[];
+}
+
+export const EMOTION_COORDINATES: Record<EmotionType, MoodPoint> = {
+  neutral: { valence: 0, arousal: 0 },
+  happy: { valence: 0.7, arousal: 0.35 },
+  excited: { valence: 0.75, arousal: 0.85 },
+  funny: { valence: 0.65, arousal: 0.6 },
+  curious: { valence: 0.25, arousal: 0.5 },
+  shy: { valence: 0.2, arousal: -0.2 },
+  calm: { valence: 0.45, arousal: -0.55 },
+  sad: { valence: -0.65, arousal: -0.4 },
+  annoyed: { valence: -0.6, arousal: 0.55 },
+};
+
+export const DEFAULT_BASELINE: MoodPoint = { valence: 0.2, arousal: 0.1 };
+
+// Fraction of the way toward an emotion a single message moves the mood
+const NUDGE_WEIGHT: Record<MoodSource, number> = { user: 0.25, reply: 0.4 };
+// The mood halves its distance to the resting point every two minutes
+const MOOD_HALF_LIFE_MS = 1000 * 60 * 2;
+// Long-term mood follows each nudge a little and relaxes to the baseline over days
+const LONG_TERM_RATE = 0.05;
+const LONG_TERM_HALF_LIFE_MS = 1000 * 60 * 60 * 24 * 3;
+// How far the long-term mood moves the resting point away from the baseline
+const LONG_TERM_PULL = 0.5;
+// Within this distance of the resting point the face is neutral
+const NEUTRAL_RADIUS = 0.15;
+// A shown emotion sticks until another is clearly better aligned
+const HYSTERESIS = 0.05;
+const MAX_HISTORY = 240;
+
+const clamp = (value: number) => Math.min(1, Math.max(-1, value));
+const distance = (a: MoodPoint, b: MoodPoint) => Math.hypot(a.valence - b.valence, a.arousal - b.arousal);
+const lerp = (from: MoodPoint, to: MoodPoint, t: number): MoodPoint => ({
+  valence: clamp(from.valence + (to.valence - from.valence) * t),
+  arousal: clamp(from.arousal + (to.arousal - from.arousal) * t),
+});
+
+export class MoodService {
+  private characterId: string | null = null;
+  private baseline: MoodPoint = DEFAULT_BASELINE;
+  private current: MoodPoint = DEFAULT_BASELINE;
+  private longTerm: MoodPoint = DEFAULT_BASELINE;
+  private at = Date.now();
+  private history: MoodSample[] = [];
+  private shown: EmotionType = 'neutral';
+  private lastNudge = 0;
+  private snapshot: MoodSnapshot | null = null;
+  private listeners = new Set<() => void>();
+  private loadPromise: Promise<void> | null = null;
+  // Until the stored mood is read, nudges wait so the record can't overwrite them
+  private loading = false;
+
+  /**
+   * Switch to a character's mood, loading it once from IndexedDB; safe to call repeatedly
+   */
+  load(characterId: string, baseline: MoodPoint = DEFAULT_BASELINE): Promise<void> {
+    this.baseline = baseline;
+    if (characterId === this.characterId && this.loadPromise) {
+      this.emit();
+      return this.loadPromise;
+    }
+
+    this.characterId = characterId;
+    this.current = this.longTerm = baseline;
+    this.at = Date.now();
+    this.history = [];
+    this.loading = true;
+    this.emit();
+    const loadPromise: Promise<void> = (async () => {
+      try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORES.moods, 'readonly');
+        const record = await promisify<MoodRecord | undefined>(tx.objectStore(STORES.moods).get(characterId));
+        // Ignore the result if the character changed meanwhile
+        if (!record || this.characterId !== characterId) return;
+        this.current = record.current;
+        this.longTerm = record.longTerm;
+        this.at = record.updatedAt;
+        this.history = record.history.slice(-MAX_HISTORY);
+        this.decay();
+        this.sample();
+        this.emit();
+      } catch (error) {
+        console.warn('[Mood] Persistent mood unavailable:', error);
+      } finally {
+        if (this.loadPromise === loadPromise) this.loading = false;
+      }
+    })();
+    this.loadPromise = loadPromise;
+    return loadPromise;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Snapshot as of the last change; identity changes on every update
+   */
+  getSnapshot(): MoodSnapshot {
+    if (!this.snapshot) {
+      this.snapshot = {
+        current: this.current,
+        longTerm: this.longTerm,
+        baseline: this.baseline,
+        emotion: this.emotion,
+        history: this.history,
+      };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * The mood now, having drifted since the last change
+   */
+  get mood(): MoodPoint {
+    this.decay();
+    return this.current;
+  }
+
+  /**
+   * The discrete emotion the mood has moved toward from its resting point
+   */
+  get emotion(): EmotionType {
+    const mood = this.mood;
+    const resting = this.resting;
+    if (distance(mood, resting) < NEUTRAL_RADIUS) {
+      this.shown = 'neutral';
+      return this.shown;
+    }
+
+    // Compare directions rather than distances, so a cheerful persona having a bad day reads as sad
+    const alignment = (emotion: EmotionType) => {
+      const point = EMOTION_COORDINATES[emotion];
+      const dv = point.valence - resting.valence;
+      const da = point.arousal - resting.arousal;
+      const length = Math.hypot(dv, da) * distance(mood, resting);
+      return length === 0 ? -1 : (dv * (mood.valence - resting.valence) + da * (mood.arousal - resting.arousal)) / length;
+    };
+    let best: EmotionType = 'neutral';
+    let bestAlignment = -Infinity;
+    for (const emotion of Object.keys(EMOTION_COORDINATES) as EmotionType[]) {
+      if (emotion === 'neutral') continue;
+      const a = alignment(emotion);
+      if (a > bestAlignment) [best, bestAlignment] = [emotion, a];
+    }
+    if (this.shown === 'neutral' || alignment(this.shown) < bestAlignment - HYSTERESIS) this.shown = best;
+    return this.shown;
+  }
+
+  /**
+   * Milliseconds since a message last moved the mood
+   */
+  get sinceNudge(): number {
+    return Date.now() - this.lastNudge;
+  }
+
+  /**
+   * Move the mood toward what a message expressed; neutral only lessens the pull
+   */
+  feel(felt: EmotionType | EmotionDistribution, source: MoodSource): void {
+    if (this.loading && this.loadPromise) {
+      const characterId = this.characterId;
+      this.loadPromise.then(() => {
+        if (this.characterId === characterId) this.feel(felt, source);
+      });
+      return;
+    }
+
+    const distribution: EmotionDistribution = typeof felt === 'string' ? { [felt]: 1 } : felt;
+    const entries = Object.entries(distribution) as [EmotionType, number][];
+    const total = entries.reduce((sum, [, p]) => sum + p, 0);
+    const emotional = entries.filter(([emotion, p]) => emotion !== 'neutral' && p > 0);
+    const weight = emotional.reduce((sum, [, p]) => sum + p, 0);
+    if (total <= 0 || weight <= 0) return;
+
+    const target = emotional.reduce((point, [emotion, p]) => ({
+      valence: point.valence + EMOTION_COORDINATES[emotion].valence * p / weight,
+      arousal: point.arousal + EMOTION_COORDINATES[emotion].arousal * p / weight,
+    }), { valence: 0, arousal: 0 });
+
+    this.decay();
+    this.sample();
+    this.current = lerp(this.current, target, NUDGE_WEIGHT[source] * weight / total);
+    this.longTerm = lerp(this.longTerm, this.current, LONG_TERM_RATE);
+    this.lastNudge = this.at;
+    this.sample();
+    this.emit();
+    this.persist();
+  }
+
+  /**
+   * Forget the long-term mood and history, back to the persona's baseline
+   */
+  async reset(): Promise<void> {
+    if (this.loading) await this.loadPromise;
+    this.current = this.longTerm = this.baseline;
+    this.at = Date.now();
+    this.history = [];
+    this.sample();
+    this.emit();
+    await this.persist();
+  }
+
+  // Where the mood settles without input
+  private get resting(): MoodPoint {
+    return lerp(this.baseline, this.longTerm, LONG_TERM_PULL);
+  }
+
+  private decay(now = Date.now()): void {
+    const elapsed = now - this.at;
+    if (elapsed <= 0) return;
+    this.longTerm = lerp(this.longTerm, this.baseline, 1 - Math.pow(0.5, elapsed / LONG_TERM_HALF_LIFE_MS));
+    this.current = lerp(this.current, this.resting, 1 - Math.pow(0.5, elapsed / MOOD_HALF_LIFE_MS));
+    this.at = now;
+  }
+
+  private sample(): void {
+    this.history = [...this.history, { ...this.current, timestamp: this.at }].slice(-MAX_HISTORY);
+  }
+
+  private emit(): void {
+    this.snapshot = null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.characterId) return;
+    const record: MoodRecord = {
+      characterId: this.characterId,
+      current: this.current,
+      longTerm: this.longTerm,
+      updatedAt: this.at,
+      history: this.history,
+    };
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.moods, 'readwrite');
+      tx.objectStore(STORES.moods).put(record);
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('[Mood] Failed to save mood:', error);
+    }
+  }
+}
+
+export const moodService = new MoodService();
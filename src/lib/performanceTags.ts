@@ -0,0 +1,182 @@
+/**
+ * Performance Tags
+ * Inline stage directions in replies: `[happy]` changes the emotion, `[wave]` plays a gesture,
+ * `[pause 500]` holds the speech and `*blushes*` is acted out. The parser strips them from the
+ * text that is shown and spoken, and returns them as cues at character offsets in that text.
+ * Asterisks around anything that is not a stage direction ("the *cats*") are only emphasis
+ */
+
+import { EmotionType } from '@/store/appStore';
+import { BUILT_IN_GESTURES } from './animation/gestures';
+
+export type PerformanceCue =
+  | { type: 'emotion'; emotion: EmotionType }
+  | { type: 'gesture'; name: string }
+  | { type: 'pause'; ms: number };
+
+export interface TimedCue {
+  // Offset in the cleaned text where the cue takes effect
+  offset: number;
+  cue: PerformanceCue;
+}
+
+export interface ParsedPerformance {
+  text: string;
+  cues: TimedCue[];
+}
+
+const EMOTIONS: EmotionType[] = ['neutral', 'happy', 'excited', 'curious', 'shy', 'sad', 'funny', 'annoyed', 'calm'];
+
+const DEFAULT_PAUSE_MS = 500;
+const MAX_PAUSE_MS = 5000;
+
+// `[word]` or `[word 500]`, `[pause 1.5s]`; only emotions, pause and known gestures are tags, so
+// "[Enter]" or "[sic]" is left alone like anything else in brackets
+const TAG = /\[([a-z][a-z_-]*)(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]/gi;
+// `*waves happily*`, on one line; `**bold**` is left alone
+const ACTION = /(?<!\*)\*([^*\n]{1,60})\*(?!\*)/g;
+// A tag still being streamed at the end of the text
+const PARTIAL_TAG = /\[([a-z][a-z_-]*)(\s+[\d.]*\s*m?s?)?$/i;
+
+// Words in an action that map to a cue; matched on their stem
+const ACTION_CUES: [RegExp, PerformanceCue][] = [
+  [/^blush/, { type: 'emotion', emotion: 'shy' }],
+  [/^(smil|grin|beam)/, { type: 'emotion', emotion: 'happy' }],
+  [/^(giggl|laugh|chuckl|snicker)/, { type: 'emotion', emotion: 'funny' }],
+  [/^(gasp|squeal|cheer)/, { type: 'emotion', emotion: 'excited' }],
+  [/^(sigh|sniff|sob|frown)/, { type: 'emotion', emotion: 'sad' }],
+  [/^(pout|huff|glare|groan)/, { type: 'emotion', emotion: 'annoyed' }],
+  [/^(ponder|wonder|tilt)/, { type: 'emotion', emotion: 'curious' }],
+  [/^(relax|hum)/, { type: 'emotion', emotion: 'calm' }],
+  [/^wav/, { type: 'gesture', name: 'wave' }],
+  [/^nod/, { type: 'gesture', name: 'nod' }],
+  [/^bow/, { type: 'gesture', name: 'bow' }],
+  [/^(jump|bounc|hop)/, { type: 'gesture', name: 'jump' }],
+  [/^shak/, { type: 'gesture', name: 'shake' }],
+];
+
+// Stage directions acted out without a cue of their own: "*looks away*", "*twirls*"
+const STAGE_DIRECTIONS = new Set([
+  'looks', 'glances', 'gazes', 'stares', 'peeks', 'turns', 'twirls', 'spins', 'leans', 'tilts', 'stretches', 'yawns',
+  'winks', 'blinks', 'shrugs', 'claps', 'points', 'hugs', 'pats', 'pokes', 'sits', 'stands', 'hides', 'whispers',
+  'salutes', 'scratches', 'taps', 'rubs', 'covers', 'fidgets', 'thinks', 'hums', 'dances', 'sings', 'waits', 'steps',
+]);
+
+// Built-in gestures plus the clips loaded for the current model
+const gestures = new Set<string>(BUILT_IN_GESTURES);
+
+const isEmotion = (word: string): word is EmotionType => (EMOTIONS as string[]).includes(word);
+
+const isTagName = (word: string) => isEmotion(word) || word === 'pause' || gestures.has(word);
+
+// Could the streamed start of a tag still become one?
+const couldBeTag = (name: string, hasAmount: boolean) => {
+  const word = name.toLowerCase();
+  if (hasAmount) return isTagName(word);
+  return [...EMOTIONS, 'pause', ...gestures].some(tag => tag.startsWith(word));
+};
+
+/**
+ * Let `[name]` tags play a gesture loaded from a clip
+ */
+export function registerGesture(name: string): void {
+  gestures.add(name.toLowerCase());
+}
+
+/**
+ * Cues for an asterisk action, or null when it reads as ordinary emphasis
+ */
+function actionCues(action: string): PerformanceCue[] | null {
+  const words = action.toLowerCase().match(/[a-z]+/g) ?? [];
+  const cues = words.flatMap((word): PerformanceCue[] => {
+    const known = ACTION_CUES.filter(([stem]) => stem.test(word)).map(([, cue]) => cue);
+    if (known.length > 0) return known;
+    // "*dances*" plays a loaded "dance" clip
+    const gesture = [word, word.replace(/s$/, '')].find(name => gestures.has(name));
+    return gesture ? [{ type: 'gesture', name: gesture }] : [];
+  });
+  if (cues.length > 0) return cues;
+  return words[0] && STAGE_DIRECTIONS.has(words[0]) ? [] : null;
+}
+
+function tagCue(name: string, amount?: string, unit?: string): PerformanceCue {
+  const word = name.toLowerCase();
+  if (isEmotion(word)) return { type: 'emotion', emotion: word };
+  if (word === 'pause') {
+    const ms = amount === undefined ? DEFAULT_PAUSE_MS : Number(amount) * (unit === 's' ? 1000 : 1);
+    return { type: 'pause', ms: Math.min(ms, MAX_PAUSE_MS) };
+  }
+  return { type: 'gesture', name: word };
+}
+
+/**
+ * Split text into what is shown and spoken, and the cues that go with it
+ */
+export function parsePerformance(text: string): ParsedPerformance {
+  // Emphasis keeps its text without the asterisks
+  const markup: { start: number; end: number; cues: PerformanceCue[]; keep?: string }[] = [];
+  for (const match of text.matchAll(TAG)) {
+    if (!isTagName(match[1].toLowerCase())) continue;
+    markup.push({ start: match.index!, end: match.index! + match[0].length, cues: [tagCue(match[1], match[2], match[3])] });
+  }
+  for (const match of text.matchAll(ACTION)) {
+    const cues = actionCues(match[1]);
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (markup.some(m => start < m.end && end > m.start)) continue;
+    markup.push(cues ? { start, end, cues } : { start, end, cues: [], keep: match[1] });
+  }
+  const partial = text.match(PARTIAL_TAG);
+  if (partial && couldBeTag(partial[1], partial[2] !== undefined)) markup.push({ start: partial.index!, end: text.length, cues: [] });
+  markup.sort((a, b) => a.start - b.start);
+
+  // Rebuild the text without the markup, never leaving two spaces where a tag was
+  let clean = '';
+  const cues: TimedCue[] = [];
+  let position = 0;
+  const append = (segment: string) => {
+    clean += /(^|\s)$/.test(clean) ? segment.replace(/^[ \t]+/, '') : segment;
+  };
+  for (const { start, end, cues: found, keep } of markup) {
+    if (start < position) continue;
+    append(text.slice(position, start));
+    const offset = clean.trimStart().length === 0 ? 0 : clean.length;
+    found.forEach(cue => cues.push({ offset, cue }));
+    if (keep !== undefined) clean += keep;
+    position = end;
+  }
+  append(text.slice(position));
+
+  // Leading whitespace goes, and offsets shift with it; cues past the end land on the end
+  const leading = clean.length - clean.trimStart().length;
+  const result = clean.trim();
+  return {
+    text: result,
+    cues: cues.map(({ offset, cue }) => ({ offset: Math.min(Math.max(offset - leading, 0), result.length), cue })),
+  };
+}
+
+/**
+ * The text with every tag and action removed, for display
+ */
+export function stripPerformance(text: string): string {
+  return parsePerformance(text).text;
+}
+
+/**
+ * The emotion in effect at the end of the text, if it was tagged
+ */
+export function taggedEmotion(text: string): EmotionType | undefined {
+  const emotions = parsePerformance(text).cues.flatMap(({ cue }) => cue.type === 'emotion' ? [cue.emotion] : []);
+  return emotions[emotions.length - 1];
+}
+
+/**
+ * Instructions for models that may emit tags, appended to the system prompt
+ */
+export const PERFORMANCE_PROMPT = [
+  'You can act out your reply with inline tags, which are not shown or spoken:',
+  `an emotion in brackets (${EMOTIONS.map(emotion => `[${emotion}]`).join(', ')}) changes your expression from that point;`,
+  '[wave], [nod], [bow], [jump] or [shake] plays a gesture; [pause 500] pauses for that many milliseconds;',
+  'a short action between asterisks, like *blushes* or *giggles*, is acted out. Use them sparingly.',
+].join(' ');
@@ -0,0 +1,155 @@
+/**
+ * Conversation Recall
+ * Offline BM25 index over past messages so Miku can bring up earlier exchanges
+ */
+
+import { formatDistanceToNow } from 'date-fns';
+import { conversationRepository, StoredMessage } from './conversationRepository';
+import { tokenize } from './tokenize';
+
+export interface RecallSnippet {
+  messageId: string;
+  conversationId: string;
+  role: StoredMessage['role'];
+  content: string;
+  timestamp: Date;
+  score: number;
+}
+
+// Restricts which messages a search may return; applied before the top k are taken
+export interface RecallFilter {
+  role?: StoredMessage['role'];
+  // Only messages sent before this moment
+  olderThan?: Date;
+}
+
+interface IndexedDocument {
+  message: StoredMessage;
+  conversationId: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const MIN_SCORE = 0.8;
+const MIN_DOCUMENT_TERMS = 2;
+const SNIPPET_MAX_LENGTH = 160;
+
+export class RecallService {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private loadPromise: Promise<void> | null = null;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index all persisted history (once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = conversationRepository.listAllMessages()
+        .then(messages => messages.forEach(({ conversationId, ...message }) => this.add(message, conversationId)))
+        .catch(error => console.warn('[Recall] History index unavailable:', error));
+    }
+    return this.loadPromise;
+  }
+
+  add(message: StoredMessage, conversationId: string): void {
+    if (this.documents.has(message.id)) return;
+
+    const terms = tokenize(message.content);
+    if (terms.length < MIN_DOCUMENT_TERMS) return;
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+    }
+
+    this.documents.set(message.id, { message, conversationId, termFrequencies, length: terms.length });
+    this.totalLength += terms.length;
+  }
+
+  removeConversation(conversationId: string): void {
+    for (const [id, doc] of this.documents) {
+      if (doc.conversationId !== conversationId) continue;
+
+      for (const term of doc.termFrequencies.keys()) {
+        const df = (this.documentFrequencies.get(term) ?? 1) - 1;
+        if (df > 0) this.documentFrequencies.set(term, df);
+        else this.documentFrequencies.delete(term);
+      }
+      this.totalLength -= doc.length;
+      this.documents.delete(id);
+    }
+  }
+
+  /**
+   * Top-k past messages for the query; `excludeIds` skips messages already in context
+   */
+  search(query: string, k: number = 3, excludeIds: Set<string> = new Set(), filter: RecallFilter = {}): RecallSnippet[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const n = this.documents.size;
+    const averageLength = this.totalLength / n;
+    const idf = new Map(queryTerms.map(term => {
+      const df = this.documentFrequencies.get(term) ?? 0;
+      return [term, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+    }));
+
+    const results: RecallSnippet[] = [];
+    for (const [id, doc] of this.documents) {
+      if (excludeIds.has(id)) continue;
+      if (filter.role && doc.message.role !== filter.role) continue;
+      if (filter.olderThan && doc.message.timestamp >= filter.olderThan) continue;
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFrequencies.get(term);
+        if (!tf) continue;
+        score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }
+
+      if (score >= MIN_SCORE) {
+        results.push({
+          messageId: id,
+          conversationId: doc.conversationId,
+          role: doc.message.role,
+          content: doc.message.content,
+          timestamp: doc.message.timestamp,
+          score,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Render recalled snippets as a system-prompt section; empty when nothing relevant
+   */
+  formatForPrompt(query: string, excludeIds?: Set<string>, k?: number): string {
+    const snippets = this.search(query, k, excludeIds);
+    if (snippets.length === 0) return '';
+
+    const lines = snippets.map(snippet => {
+      const when = formatDistanceToNow(snippet.timestamp, { addSuffix: true });
+      const who = snippet.role === 'user' ? 'They said' : 'You said';
+      const text = snippet.content.length > SNIPPET_MAX_LENGTH
+        ? `${snippet.content.slice(0, SNIPPET_MAX_LENGTH - 1)}…`
+        : snippet.content;
+      return `- ${when}, ${who}: "${text}"`;
+    });
+
+    return `RELEVANT PAST CONVERSATIONS:\n${lines.join('\n')}\nRefer back to these naturally if they fit ("you told me last week...").`;
+  }
+}
+
+export const recallService = new RecallService();
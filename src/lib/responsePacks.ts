@@ -0,0 +1,291 @@
+/**
+ * Response Packs
+ * Data-driven replies for the local rule engine, loaded from JSON and validated with zod
+ */
+
+import { z } from 'zod';
+import { EmotionType } from '@/store/appStore';
+
+const EMOTIONS = ['neutral', 'happy', 'excited', 'curious', 'shy', 'sad', 'funny', 'annoyed', 'calm'] as const satisfies readonly EmotionType[];
+
+const emotionSchema = z.enum(EMOTIONS);
+
+const isValidRegex = ({ regex, flags }: { regex: string; flags?: string }) => {
+  try {
+    new RegExp(regex, flags);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface ResponsePattern {
+  type: 'keyword' | 'word' | 'regex';
+  value: string;
+  flags?: string;
+  // Word patterns tolerate small typos unless disabled
+  fuzzy?: boolean;
+}
+
+export interface ResponseReply {
+  text: string;
+  weight: number;
+  // Overrides the intent's emotion for this reply
+  emotion?: EmotionType;
+}
+
+// A bare string is a whole-word (or whole-phrase) match
+const patternSchema = z.union([
+  z.string().min(1).transform((value): ResponsePattern => ({ type: 'word', value })),
+  z.object({ keyword: z.string().min(1) }).strict()
+    .transform((pattern): ResponsePattern => ({ type: 'keyword', value: pattern.keyword })),
+  z.object({ word: z.string().min(1), fuzzy: z.boolean().optional() }).strict()
+    .transform((pattern): ResponsePattern => ({ type: 'word', value: pattern.word, fuzzy: pattern.fuzzy })),
+  z.object({ regex: z.string().min(1), flags: z.string().regex(/^[imsu]*$/).optional() })
+    .strict()
+    .refine(isValidRegex, { message: 'Invalid regular expression' })
+    .transform((pattern): ResponsePattern => ({ type: 'regex', value: pattern.regex, flags: pattern.flags })),
+]);
+
+// A bare string is a reply with weight 1 that uses the intent's emotion
+const replySchema = z.union([
+  z.string().min(1).transform((text): ResponseReply => ({ text, weight: 1 })),
+  z.object({
+    text: z.string().min(1),
+    weight: z.number().positive().default(1),
+    emotion: emotionSchema.optional(),
+  }).strict().transform((reply): ResponseReply => ({ text: reply.text, weight: reply.weight, emotion: reply.emotion })),
+]);
+
+// `(pattern)|` always matches the empty string, exposing how many groups the pattern has
+const hasCaptureGroup = (regex: string) => new RegExp(`${regex}|`).exec('')!.length > 1;
+
+// Slot values are captured by the first group of any pattern
+const slotSchema = z.object({
+  name: z.string().regex(/^\w+$/, 'Slot names may only contain letters, digits and _'),
+  patterns: z.array(
+    z.string().min(1)
+      .refine(regex => isValidRegex({ regex }), { message: 'Invalid regular expression' })
+      .refine(regex => !isValidRegex({ regex }) || hasCaptureGroup(regex), { message: 'Slot pattern needs a capture group' })
+  ).min(1),
+  // A required slot that is missing makes Miku ask for it before answering
+  required: z.boolean().default(false),
+  prompt: z.array(replySchema).min(1).optional(),
+}).strict().refine(slot => !slot.required || slot.prompt, { message: 'Required slots need a prompt' });
+
+const intentSchema = z.object({
+  id: z.string().min(1),
+  emotion: emotionSchema,
+  // Added to the match score, so a higher priority wins over a closer match
+  priority: z.number().default(0),
+  // Without patterns, an intent answers anything said while its required context is active
+  patterns: z.array(patternSchema).default([]),
+  // Replies may use {slot} placeholders; ones whose slots are unknown are skipped
+  replies: z.array(replySchema).min(1),
+  slots: z.array(slotSchema).default([]),
+  // Remembered after this intent replies, so a follow-up intent can require it
+  setsContext: z.string().min(1).optional(),
+  // How many user turns the context stays active
+  contextTurns: z.number().int().positive().default(2),
+  // Only matches while an intent that set this context is still active
+  requiresContext: z.string().min(1).optional(),
+}).strict().refine(intent => intent.patterns.length > 0 || intent.requiresContext, {
+  message: 'Intents without patterns need requiresContext',
+});
+
+export const responsePackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  // BCP 47 language tag; only the primary language is used for lookup
+  locale: z.string().min(2),
+  intents: z.array(intentSchema),
+  fallback: z.array(replySchema).min(1),
+  fallbackEmotion: emotionSchema.default('curious'),
+  // Bringing up what the user said before when no intent matched; {value}, {label}, {when} and {quote} are filled in
+  memoryReplies: z.object({
+    // A fact learned from the very message being answered
+    learned: z.array(replySchema).min(1).optional(),
+    preference: z.array(replySchema).min(1).optional(),
+    dislike: z.array(replySchema).min(1).optional(),
+    date: z.array(replySchema).min(1).optional(),
+    // A remark from an earlier session
+    recall: z.array(replySchema).min(1).optional(),
+  }).strict().default({}),
+  // Replies to a clearly felt message that nothing else covers, by the user's emotion
+  feelingReplies: z.record(emotionSchema, z.array(replySchema).min(1)).default({}),
+}).strict();
+
+export type ResponsePack = z.output<typeof responsePackSchema>;
+export type ResponseIntent = ResponsePack['intents'][number];
+export type ResponseSlot = ResponseIntent['slots'][number];
+export type MemoryReplyKind = keyof ResponsePack['memoryReplies'];
+
+export interface PackReply {
+  content: string;
+  emotion: EmotionType;
+  // Matched intent id; null when the fallback answered
+  intentId: string | null;
+  // Context the reply leaves behind for the next turn
+  context?: string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/;
+
+const primaryLanguage = (locale: string) => locale.toLowerCase().split(/[-_]/)[0];
+
+// `{name}` placeholders; `{{char}}` card macros are left for the persona to fill
+const PLACEHOLDER = /(?<!\{)\{(\w+)\}(?!\})/g;
+
+// Emotion of a memory reply that does not set its own
+const MEMORY_EMOTIONS: Record<MemoryReplyKind, EmotionType> = {
+  learned: 'happy',
+  preference: 'happy',
+  dislike: 'curious',
+  date: 'excited',
+  recall: 'curious',
+};
+
+/**
+ * Replace `{name}` placeholders; unknown names become empty
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Whether every placeholder in the reply has a value
+ */
+export function canFill(reply: ResponseReply, values: Record<string, string>): boolean {
+  return [...reply.text.matchAll(PLACEHOLDER)].every(([, name]) => values[name] !== undefined);
+}
+
+/**
+ * Best-effort language of a message, for picking a pack
+ */
+export function detectLocale(text: string): string {
+  return CJK_REGEX.test(text) ? 'ja' : DEFAULT_LOCALE;
+}
+
+/**
+ * Validate raw pack data (parsed JSON); throws with every problem listed
+ */
+export function parseResponsePack(raw: unknown, source: string = 'response pack'): ResponsePack {
+  const result = responsePackSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Weighted random pick
+ */
+export function pickReply(replies: ResponseReply[]): ResponseReply {
+  const total = replies.reduce((sum, reply) => sum + reply.weight, 0);
+  let roll = Math.random() * total;
+  for (const reply of replies) {
+    roll -= reply.weight;
+    if (roll < 0) return reply;
+  }
+  return replies[replies.length - 1];
+}
+
+export class ResponsePackRegistry {
+  private packs: ResponsePack[] = [];
+
+  /**
+   * Add a validated pack; a pack with the same id replaces the earlier one
+   */
+  register(pack: ResponsePack): void {
+    const existing = this.packs.findIndex(p => p.id === pack.id);
+    if (existing >= 0) this.packs[existing] = pack;
+    else this.packs.push(pack);
+  }
+
+  /**
+   * Fetch, validate and register a pack served as JSON
+   */
+  async loadFromUrl(url: string): Promise<ResponsePack> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load response pack ${url}: ${response.status} ${response.statusText}`);
+    }
+    const pack = parseResponsePack(await response.json(), `response pack ${url}`);
+    this.register(pack);
+    return pack;
+  }
+
+  get all(): ResponsePack[] {
+    return this.packs;
+  }
+
+  /**
+   * Packs for the locale's language, falling back to the default locale
+   * Limited to the given pack ids when there are any (a character's own packs, possibly none)
+   */
+  packsFor(locale: string, ids?: string[]): ResponsePack[] {
+    const packs = ids ? this.packs.filter(p => ids.includes(p.id)) : this.packs;
+    const language = primaryLanguage(locale);
+    const exact = packs.filter(p => primaryLanguage(p.locale) === language);
+    if (exact.length > 0) return exact;
+    return packs.filter(p => primaryLanguage(p.locale) === DEFAULT_LOCALE);
+  }
+
+  /**
+   * A generic reply for when no intent matched
+   */
+  fallback(locale: string = DEFAULT_LOCALE, ids?: string[]): PackReply {
+    const pack = this.packsFor(locale, ids)[0];
+    if (!pack) return { content: '...?', emotion: 'curious', intentId: null };
+
+    const reply = pickReply(pack.fallback);
+    return { content: reply.text, emotion: reply.emotion ?? pack.fallbackEmotion, intentId: null };
+  }
+
+  /**
+   * A reply bringing up something the user told before, or null when the packs have none that fits
+   */
+  memoryReply(kind: MemoryReplyKind, values: Record<string, string>, locale: string = DEFAULT_LOCALE, ids?: string[]): PackReply | null {
+    const replies = this.repliesFor(locale, ids, pack => pack.memoryReplies[kind])?.filter(reply => canFill(reply, values));
+    if (!replies?.length) return null;
+
+    // Prefer wording that uses everything known, e.g. the date's label over "big day"
+    const used = (reply: ResponseReply) => new Set([...reply.text.matchAll(PLACEHOLDER)].map(([, name]) => name));
+    const complete = replies.filter(reply => Object.keys(values).every(name => used(reply).has(name)));
+    const reply = pickReply(complete.length > 0 ? complete : replies);
+    const content = fillPlaceholders(reply.text, values).replace(/\s{2,}/g, ' ').trim();
+    return { content, emotion: reply.emotion ?? MEMORY_EMOTIONS[kind], intentId: null };
+  }
+
+  /**
+   * A reply meeting how the user feels, or null when the packs have none for that emotion
+   */
+  feelingReply(emotion: EmotionType, locale: string = DEFAULT_LOCALE, ids?: string[]): PackReply | null {
+    const replies = this.repliesFor(locale, ids, pack => pack.feelingReplies[emotion]);
+    if (!replies) return null;
+
+    const reply = pickReply(replies);
+    return { content: reply.text, emotion: reply.emotion ?? emotion, intentId: null };
+  }
+
+  // The first locale pack that has such replies, then the first default-locale one
+  private repliesFor(locale: string, ids: string[] | undefined, select: (pack: ResponsePack) => ResponseReply[] | undefined) {
+    const find = (packs: ResponsePack[]) => packs.map(select).find(replies => replies !== undefined);
+    return find(this.packsFor(locale, ids)) ?? find(this.packsFor(DEFAULT_LOCALE, ids));
+  }
+}
+
+export const responsePacks = new ResponsePackRegistry();
+
+// Every JSON file in src/data/responsePacks ships with the app
+const bundledPacks = import.meta.glob<unknown>('../data/responsePacks/*.json', { eager: true, import: 'default' });
+for (const [path, raw] of Object.entries(bundledPacks)) {
+  try {
+    responsePacks.register(parseResponsePack(raw, `response pack ${path}`));
+  } catch (error) {
+    console.warn('[ResponsePacks] Skipping bundled pack:', error);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Streaming Sentence Segmenter
+ * Cuts a token stream into speakable sentences so TTS can start before the reply finishes
+ */
+
+export interface SegmenterConfig {
+  // Force a soft break at a comma or space once a sentence grows past this many characters
+  maxLength: number;
+}
+
+const DEFAULT_CONFIG: SegmenterConfig = {
+  maxLength: 180,
+};
+
+// Terminators that always end a sentence once the run is complete
+const CJK_TERMINATORS = '。！？｡';
+const TERMINATORS = '.!?…' + CJK_TERMINATORS;
+const CLOSERS = '"\'”’)]}）」』】〉》';
+
+// Words whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e',
+  'a.m', 'p.m', 'approx', 'vol', 'fig', 'inc', 'ltd', 'co', 'jan', 'feb',
+  'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+// Abbreviations only before a number: "No. 5", but "No. I don't think so!" is two sentences
+const NUMBER_ABBREVIATIONS = new Set(['no']);
+
+const EMOJI_REGEX = /\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u{FE0F}|\u{200D}|[♡♥]/u;
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/;
+
+const isWhitespace = (char: string) => /\s/.test(char);
+const isEmoji = (char: string) => EMOJI_REGEX.test(char);
+
+export class SentenceSegmenter {
+  private buffer = '';
+  private config: SegmenterConfig;
+
+  constructor(config: Partial<SegmenterConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Feed a streamed token; returns any sentences completed by it
+   */
+  push(token: string): string[] {
+    this.buffer += token;
+    const sentences: string[] = [];
+
+    let boundary = this.findBoundary();
+    while (boundary > 0) {
+      const sentence = this.buffer.slice(0, boundary).trim();
+      this.buffer = this.buffer.slice(boundary);
+      if (sentence) sentences.push(sentence);
+      boundary = this.findBoundary();
+    }
+
+    return sentences;
+  }
+
+  /**
+   * Return whatever is left once the stream is complete
+   */
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+
+  /**
+   * Index just past the first complete sentence, or -1 if more input is needed
+   */
+  private findBoundary(): number {
+    // Iterate by code point so surrogate-pair emoji stay intact
+    const chars = Array.from(this.buffer);
+
+    for (let i = 0; i < chars.length; i++) {
+      if (!TERMINATORS.includes(chars[i])) continue;
+
+      const runStart = i;
+      while (i < chars.length && TERMINATORS.includes(chars[i])) i++;
+      const run = chars.slice(runStart, i).join('');
+      while (i < chars.length && CLOSERS.includes(chars[i])) i++;
+
+      // Need to see what follows the run before deciding
+      if (i >= chars.length) return -1;
+
+      const end = this.consumeTrailing(chars, i);
+      if (end < 0) return -1;
+
+      if (this.isSentenceEnd(chars, runStart, run, i, end)) {
+        return chars.slice(0, end).join('').length;
+      }
+      i--;
+    }
+
+    return this.findSoftBreak(this.buffer);
+  }
+
+  /**
+   * Attach trailing emoji and spaces to the sentence they decorate
+   */
+  private consumeTrailing(chars: string[], start: number): number {
+    let i = start;
+    while (i < chars.length && (isWhitespace(chars[i]) || isEmoji(chars[i]))) i++;
+    // Trailing decoration may still be arriving
+    if (i >= chars.length && chars.slice(start).some(isEmoji)) return -1;
+    return i;
+  }
+
+  private isSentenceEnd(chars: string[], runStart: number, run: string, afterRun: number, end: number): boolean {
+    if (CJK_TERMINATORS.includes(run[run.length - 1])) return true;
+
+    // ASCII terminators only end a sentence when followed by a space or emoji
+    const next = chars[afterRun];
+    if (!isWhitespace(next) && !isEmoji(next)) return false;
+
+    const following = chars[end];
+
+    // Ellipses trail off mid-thought unless a new sentence clearly starts
+    if (run.includes('…') || run.includes('..')) {
+      return following !== undefined && (/[A-Z]/.test(following) || CJK_REGEX.test(following));
+    }
+
+    if (run === '.') {
+      const word = this.wordBefore(chars, runStart).toLowerCase();
+      if (ABBREVIATIONS.has(word)) return false;
+      // Undecided until the next word arrives
+      if (NUMBER_ABBREVIATIONS.has(word)) return following !== undefined && !/\d/.test(following);
+      // Single initials like "J. Smith"
+      if (/^[a-z]$/i.test(word) && following !== undefined && /[A-Z]/.test(following)) return false;
+    }
+
+    return true;
+  }
+
+  private wordBefore(chars: string[], index: number): string {
+    let start = index;
+    while (start > 0 && /[\w.]/.test(chars[start - 1])) start--;
+    return chars.slice(start, index).join('');
+  }
+
+  /**
+   * Keep latency bounded for long unpunctuated runs
+   */
+  private findSoftBreak(text: string): number {
+    if (text.length <= this.config.maxLength) return -1;
+
+    const window = text.slice(0, this.config.maxLength);
+    const clause = Math.max(window.lastIndexOf(', '), window.lastIndexOf('、'));
+    if (clause > 0) return clause + 1;
+
+    const space = window.lastIndexOf(' ');
+    return space > 0 ? space + 1 : this.config.maxLength;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Sentiment Classifier
+ * Offline, lexicon-based emotion scores for any chat text, English or Japanese. Handles negation
+ * ("not happy"), intensifiers ("so happy", "めっちゃ嬉しい"), contrast ("..., but"), emphasis, emoji,
+ * emoticons and kaomoji, and returns a probability for every emotion, neutral included
+ */
+
+import { EmotionType } from '@/store/appStore';
+
+export type EmotionProbabilities = Record<EmotionType, number>;
+
+type Weights = Partial<Record<EmotionType, number>>;
+
+const EMOTIONS: EmotionType[] = ['neutral', 'happy', 'excited', 'curious', 'shy', 'sad', 'funny', 'annoyed', 'calm'];
+
+// Evidence needed before text stops reading as mostly neutral
+const NEUTRAL_PRIOR = 1;
+const DEFAULT_MIN_PROBABILITY = 0.3;
+
+const INTENSIFY = 1.6;
+const DOWNTONE = 0.5;
+const SHOUTED = 1.5;
+const ELONGATED = 1.3;
+// Words after a negator that it still applies to
+const NEGATION_WINDOW = 3;
+// Words after an intensifier it can still reach
+const MODIFIER_WINDOW = 2;
+// What comes before "but" counts for less
+const BEFORE_CONTRAST = 0.5;
+
+// Matched on lowercased words with apostrophes removed and runs of a letter cut to two ("sooo" -> "soo")
+const WORDS: [RegExp, Weights][] = [
+  [/^(happy|happier|happiest|glad|joy|joyful|delighted|pleased|smile|smiling|grateful|thankful|proud|blessed)$/, { happy: 1 }],
+  [/^(love[ds]?|loving|lovely|adore|wonderful|great|good|nice|sweet|cute|adorable|best|enjoy(ed|ing|s)?|fun)$/, { happy: 0.8 }],
+  [/^(thanks?|thx|ty|yay+|ya+y)$/, { happy: 0.7, excited: 0.3 }],
+  [/^(excited|exciting|thrilled|amazing|incredible|awesome|fantastic|epic|stoked|hyped?|omg|wow+|woo+|woohoo+|yess+)$/, { excited: 1 }],
+  [/^(lol+|lmao+|lmfao|rofl|xd+|funny|hilarious|kidding|joking|joke)$/, { funny: 1 }],
+  [/^(ha(ha)+h?|he(he)+h?|ehe+he+|ww+)$/, { funny: 1 }],
+  [/^(curious|wonder(ing)?|interesting|interested|intrigued|fascinating|hmm+|huh|explain)$/, { curious: 1 }],
+  [/^(shy|blush(ing|es|ed)?|embarrass(ed|ing)?|flustered|awkward|eh+)$/, { shy: 1 }],
+  [/^aww+$/, { shy: 0.4, happy: 0.5 }],
+  [/^(sad|sadly|unhappy|depressed|lonely|heartbroken|miserable|cry|crying|cried|tears|upset|hurt|hurts)$/, { sad: 1 }],
+  [/^(miss(ed|ing)?|alone|sorry|unfortunately|tired|exhausted|worried|worry|anxious|scared|afraid|stressed|failed|lost)$/, { sad: 0.6 }],
+  [/^(awful|terrible|bad|worst|sucks?|horrible)$/, { sad: 0.6, annoyed: 0.4 }],
+  [/^(annoyed|annoying|angry|mad|furious|hate[ds]?|stupid|dumb|frustrat(ed|ing)|irritat(ed|ing)|pissed|wtf|damn|ugh+|argh+|grr+)$/, { annoyed: 1 }],
+  [/^(bored|boring|whatever|meh)$/, { annoyed: 0.4, sad: 0.2 }],
+  [/^(calm|relax(ed|ing)?|peaceful|chill|cozy|comfy|rest(ing)?|sleepy|quiet|gentle|serene|breathe)$/, { calm: 1 }],
+];
+
+// Multi-word expressions, matched before the single words in them
+const PHRASES: [RegExp, Weights][] = [
+  [/\bcan'?t wait\b/gi, { excited: 1.2 }],
+  [/\blet'?s go\b/gi, { excited: 1 }],
+  [/\bno way\b/gi, { excited: 0.5, curious: 0.3 }],
+  [/\boh no\b/gi, { sad: 0.7 }],
+  [/\bshut up\b/gi, { annoyed: 1 }],
+  [/\btell me (more|about)\b/gi, { curious: 0.8 }],
+  [/\bfed up\b/gi, { annoyed: 1 }],
+];
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'cant', 'cannot',
+  'couldnt', 'wont', 'wouldnt', 'shouldnt', 'aint', 'nothing', 'nobody', 'hardly', 'barely', 'neither', 'nor', 'without',
+]);
+const INTENSIFIERS = new Set([
+  'very', 'really', 'so', 'soo', 'super', 'extremely', 'totally', 'absolutely', 'incredibly', 'truly', 'such',
+  'too', 'mega', 'hella', 'insanely', 'completely',
+]);
+const DOWNTONERS = new Set(['slightly', 'somewhat', 'kinda', 'sorta', 'bit', 'little', 'mildly', 'fairly']);
+
+// Japanese stems, matched longest first anywhere in the text
+const JAPANESE = ([
+  ['大好き', { happy: 1.5 }],
+  ['嬉し', { happy: 1 }], ['うれし', { happy: 1 }], ['楽し', { happy: 1 }], ['たのし', { happy: 1 }],
+  ['好き', { happy: 0.8 }], ['幸せ', { happy: 1 }], ['しあわせ', { happy: 1 }], ['よかった', { happy: 0.8 }],
+  ['良かった', { happy: 0.8 }], ['ありがと', { happy: 0.8 }], ['素敵', { happy: 0.8 }], ['すてき', { happy: 0.8 }],
+  ['可愛', { happy: 0.7 }], ['かわいい', { happy: 0.7 }],
+  ['楽しみ', { excited: 1 }], ['たのしみ', { excited: 1 }], ['わくわく', { excited: 1 }], ['ワクワク', { excited: 1 }],
+  ['すごい', { excited: 1 }], ['凄い', { excited: 1 }], ['やった', { excited: 1 }], ['最高', { excited: 0.7, happy: 0.5 }],
+  ['やばい', { excited: 0.6 }],
+  ['面白', { funny: 1 }], ['おもしろ', { funny: 1 }], ['笑', { funny: 0.8 }], ['ウケる', { funny: 1 }], ['ワロタ', { funny: 1 }],
+  ['草', { funny: 0.6 }],
+  ['なぜ', { curious: 0.8 }], ['なんで', { curious: 0.8 }], ['どうして', { curious: 0.8 }], ['気にな', { curious: 1 }],
+  ['知りたい', { curious: 1 }], ['不思議', { curious: 0.8 }], ['興味', { curious: 1 }], ['へぇ', { curious: 0.6 }],
+  ['恥ずかし', { shy: 1 }], ['はずかし', { shy: 1 }], ['照れ', { shy: 1 }], ['てれ', { shy: 0.6 }], ['もじもじ', { shy: 1 }],
+  ['悲し', { sad: 1 }], ['かなし', { sad: 1 }], ['寂し', { sad: 1 }], ['さみし', { sad: 1 }], ['さびし', { sad: 1 }],
+  ['辛い', { sad: 1 }], ['つらい', { sad: 1 }], ['泣', { sad: 1 }], ['涙', { sad: 0.8 }], ['残念', { sad: 0.8 }],
+  ['落ち込', { sad: 1 }], ['しんどい', { sad: 0.8 }], ['不安', { sad: 0.6 }], ['怖', { sad: 0.6 }], ['こわい', { sad: 0.6 }],
+  ['ごめん', { sad: 0.5 }], ['疲れ', { sad: 0.4 }], ['最悪', { sad: 0.5, annoyed: 0.5 }],
+  ['むかつ', { annoyed: 1 }], ['ムカつ', { annoyed: 1 }], ['うざ', { annoyed: 1 }], ['ウザ', { annoyed: 1 }],
+  ['イライラ', { annoyed: 1 }], ['いらいら', { annoyed: 1 }], ['怒', { annoyed: 1 }], ['腹立', { annoyed: 1 }],
+  ['うるさい', { annoyed: 0.8 }], ['嫌い', { annoyed: 0.8 }], ['きらい', { annoyed: 0.8 }], ['めんどくさ', { annoyed: 0.8 }],
+  ['面倒', { annoyed: 0.6 }],
+  ['落ち着', { calm: 1 }], ['のんびり', { calm: 1 }], ['ゆっくり', { calm: 0.8 }], ['リラックス', { calm: 1 }],
+  ['ほっと', { calm: 0.8 }], ['穏やか', { calm: 1 }], ['癒', { calm: 1 }], ['眠い', { calm: 0.5 }], ['ねむい', { calm: 0.5 }],
+] as [string, Weights][]).sort(([a], [b]) => b.length - a.length);
+
+const JAPANESE_INTENSIFIER = /(とても|すごく|めっちゃ|めちゃ|超|本当に|ほんとに|マジで|まじで|かなり)$/;
+const JAPANESE_DOWNTONER = /(ちょっと|少し|すこし|やや|ちょっぴり)$/;
+// A stem followed by a negative ending, before the next break: 嬉しくない, 好きじゃない
+const JAPANESE_NEGATION = /^[^、。!?\s]{0,4}?(ない|なかっ|ません)/;
+
+const EMOJI: [string, Weights][] = [
+  ['😊', { happy: 1 }], ['☺', { happy: 0.8, shy: 0.2 }], ['🙂', { happy: 0.6 }], ['😄', { happy: 1 }],
+  ['😁', { happy: 1 }], ['😀', { happy: 1 }], ['🥰', { happy: 1.2 }], ['😍', { happy: 1, excited: 0.4 }],
+  ['❤', { happy: 1 }], ['💕', { happy: 1 }], ['💖', { happy: 1 }], ['💗', { happy: 1 }], ['♥', { happy: 0.8 }],
+  ['🎉', { excited: 1 }], ['🤩', { excited: 1.2 }], ['🥳', { excited: 1.2 }], ['✨', { excited: 0.4 }], ['🔥', { excited: 0.6 }],
+  ['😂', { funny: 1.2 }], ['🤣', { funny: 1.2 }], ['😆', { funny: 1 }], ['😜', { funny: 0.8 }], ['😝', { funny: 0.8 }],
+  ['🤔', { curious: 1 }], ['🧐', { curious: 1 }], ['❓', { curious: 0.6 }],
+  ['😳', { shy: 1 }], ['🙈', { shy: 1 }], ['👉👈', { shy: 1.2 }],
+  ['😢', { sad: 1 }], ['😭', { sad: 1.2 }], ['😞', { sad: 1 }], ['😔', { sad: 1 }], ['😟', { sad: 0.8 }],
+  ['🥺', { sad: 0.6, shy: 0.3 }], ['💔', { sad: 1.2 }],
+  ['😠', { annoyed: 1 }], ['😡', { annoyed: 1.2 }], ['🤬', { annoyed: 1.2 }], ['😤', { annoyed: 0.8 }],
+  ['🙄', { annoyed: 0.8 }], ['😒', { annoyed: 0.8 }],
+  ['😌', { calm: 1 }], ['😴', { calm: 0.6 }], ['🍵', { calm: 0.6 }],
+];
+
+// Emoticons and kaomoji, on NFKC-normalized text (fullwidth punctuation is ASCII by then, and "﹏" is "_")
+const EMOTICONS: [RegExp, Weights][] = [
+  [/\\\(\s*[\^≧*][^()]{0,4}[\^≦*]\s*\)\/|≧\s*[▽∀ω]\s*≦/g, { excited: 1.2 }],
+  [/\(\s*\^\s*[_▽ωー∀o.-]?\s*\^\s*\)|\^\^|\^_\^/g, { happy: 1 }],
+  [/[TQ]_+[TQ]|T\^T|;_+;|\(\s*;\s*[_ω]\s*;\s*\)|ಥ_ಥ|╥_+╥|\bQAQ\b/g, { sad: 1.2 }],
+  [/\(\s*¬\s*_\s*¬\s*\)|ಠ_ಠ|-_-|\(\s*[`#][^()]{0,3}[Д益へ][^()]{0,3}\)/g, { annoyed: 1 }],
+  [/\(\s*\*?\s*\/\s*ω\s*\\\s*\*?\s*\)|\(\s*〃[^()]{0,3}〃\s*\)|>\/\/+<|\/\/\/+/g, { shy: 1 }],
+  [/\bo_O\b|\bO_o\b|\(\s*[・.]\s*[・.]\s*\?\s*\)|\(\s*\?\s*_\s*\?\s*\)|⊙_⊙/g, { curious: 1 }],
+  [/(?<![\w/]):'-?\(/g, { sad: 1.2 }],
+  [/(?<![\w/])>:-?\(/g, { annoyed: 1 }],
+  [/(?<![\w/])[:=]-?\)|(?<![\w/])\(:/g, { happy: 0.8 }],
+  [/(?<![\w/])[:=]-?D\b/g, { excited: 0.8, happy: 0.4 }],
+  [/(?<![\w/]);-?\)/g, { funny: 0.5, happy: 0.3 }],
+  [/(?<![\w/])[:;]-?[pP]\b|\bx[dD]\b|\bXD\b/g, { funny: 1 }],
+  [/(?<![\w/])[:=]-?\(|(?<![\w/])\):/g, { sad: 0.8 }],
+  [/(?<![\w/:])[:=]-?[/\\](?![\w/])/g, { annoyed: 0.4 }],
+  [/(?<![\w/])[:=]-?[oO]\b/g, { excited: 0.4, curious: 0.4 }],
+  [/<3/g, { happy: 1 }],
+  [/(?<![\w/]):3\b/g, { happy: 0.5, shy: 0.3 }],
+];
+
+// What a negated word means instead: "not happy" is sad, "not bad" is calm
+const NEGATED: Record<EmotionType, Weights> = {
+  neutral: {},
+  happy: { sad: 0.6 },
+  excited: { sad: 0.3 },
+  funny: { annoyed: 0.5 },
+  curious: {},
+  shy: { calm: 0.3 },
+  sad: { calm: 0.4, happy: 0.2 },
+  annoyed: { calm: 0.5 },
+  calm: { annoyed: 0.4, sad: 0.2 },
+};
+
+const CONTRAST = /\b(?:but|however|though|although|yet)\b|だけど|けれど|けど|でも|しかし/i;
+const SENTENCE = /[^.!?。\n]+[.!?。\n]*/g;
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+
+const emptyScores = (): EmotionProbabilities =>
+  Object.fromEntries(EMOTIONS.map(emotion => [emotion, 0])) as EmotionProbabilities;
+
+function add(scores: EmotionProbabilities, weights: Weights, factor: number): void {
+  for (const [emotion, weight] of Object.entries(weights) as [EmotionType, number][]) {
+    scores[emotion] += weight * factor;
+  }
+}
+
+function negate(weights: Weights): Weights {
+  const flipped: Weights = {};
+  for (const [emotion, weight] of Object.entries(weights) as [EmotionType, number][]) {
+    for (const [opposite, share] of Object.entries(NEGATED[emotion]) as [EmotionType, number][]) {
+      flipped[opposite] = (flipped[opposite] ?? 0) + weight * share;
+    }
+  }
+  return flipped;
+}
+
+/**
+ * Take out every match of the pattern, scoring each; returns the text that is left
+ */
+function consume(text: string, pattern: RegExp, weights: Weights, scores: EmotionProbabilities, factor: number): string {
+  return text.replace(pattern, () => {
+    add(scores, weights, factor);
+    return ' ';
+  });
+}
+
+function scoreWords(clause: string, scores: EmotionProbabilities, factor: number): void {
+  let negation = 0;
+  let modifier = 1;
+  let modifierLeft = 0;
+  for (const raw of clause.replace(CJK_RUN, ' ').match(/[\p{L}\p{N}']+|[,;:.!?]/gu) ?? []) {
+    // Negation ends with its clause: in "no, I'm happy" the "no" is an interjection
+    if (/^[,;:.!?]$/.test(raw)) {
+      negation = 0;
+      continue;
+    }
+    const word = raw.toLowerCase().replace(/'/g, '');
+    const squeezed = word.replace(/(.)\1{2,}/g, '$1$1');
+
+    if (NEGATORS.has(squeezed)) {
+      negation = NEGATION_WINDOW;
+      continue;
+    }
+    if (INTENSIFIERS.has(squeezed) || DOWNTONERS.has(squeezed)) {
+      modifier *= INTENSIFIERS.has(squeezed) ? INTENSIFY : DOWNTONE;
+      modifierLeft = MODIFIER_WINDOW;
+      continue;
+    }
+
+    const weights = WORDS.find(([pattern]) => pattern.test(squeezed))?.[1];
+    if (weights) {
+      const shouted = raw.length >= 3 && raw === raw.toUpperCase() && raw !== raw.toLowerCase();
+      const emphasis = (shouted ? SHOUTED : 1) * (squeezed !== word ? ELONGATED : 1);
+      add(scores, negation > 0 ? negate(weights) : weights, factor * modifier * emphasis);
+      modifier = 1;
+      modifierLeft = 0;
+    } else if (modifierLeft > 0 && --modifierLeft === 0) {
+      modifier = 1;
+    }
+    if (negation > 0) negation--;
+  }
+}
+
+function scoreJapanese(clause: string, scores: EmotionProbabilities, factor: number): void {
+  const taken: boolean[] = [];
+  for (const [stem, weights] of JAPANESE) {
+    for (let index = clause.indexOf(stem); index !== -1; index = clause.indexOf(stem, index + stem.length)) {
+      if (taken.slice(index, index + stem.length).some(Boolean)) continue;
+      for (let i = index; i < index + stem.length; i++) taken[i] = true;
+
+      const before = clause.slice(Math.max(0, index - 6), index);
+      const modifier = JAPANESE_INTENSIFIER.test(before) ? INTENSIFY : JAPANESE_DOWNTONER.test(before) ? DOWNTONE : 1;
+      const negated = JAPANESE_NEGATION.test(clause.slice(index + stem.length));
+      add(scores, negated ? negate(weights) : weights, factor * modifier);
+    }
+  }
+}
+
+/**
+ * How likely the text expresses each emotion; the probabilities sum to 1, and text without
+ * emotional cues is mostly neutral
+ */
+export function classifyEmotion(text: string): EmotionProbabilities {
+  const scores = emptyScores();
+  let rest = text.normalize('NFKC').replace(/https?:\/\/\S+/g, ' ');
+
+  for (const [emoji, weights] of EMOJI) {
+    const count = rest.split(emoji).length - 1;
+    if (count > 0) add(scores, weights, Math.min(count, 3));
+  }
+  for (const [pattern, weights] of EMOTICONS) rest = consume(rest, pattern, weights, scores, 1);
+
+  for (const sentence of rest.match(SENTENCE) ?? []) {
+    const sentenceScores = emptyScores();
+    const clauses = sentence.split(CONTRAST);
+    clauses.forEach((clause, i) => {
+      const factor = i < clauses.length - 1 ? BEFORE_CONTRAST : 1;
+      let words = clause;
+      for (const [pattern, weights] of PHRASES) words = consume(words, pattern, weights, sentenceScores, factor);
+      scoreWords(words, sentenceScores, factor);
+      scoreJapanese(clause, sentenceScores, factor);
+    });
+
+    // Exclamation marks raise whatever the sentence says; on their own they read as excitement
+    const exclamations = Math.min((sentence.match(/!/g) ?? []).length, 3);
+    const felt = EMOTIONS.some(emotion => sentenceScores[emotion] > 0);
+    if (felt) add(scores, sentenceScores, 1 + exclamations * 0.15);
+    else if (exclamations > 0) scores.excited += exclamations * 0.2;
+    else if (sentence.includes('?')) scores.curious += 0.35;
+  }
+
+  scores.neutral += NEUTRAL_PRIOR;
+  const total = EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+  for (const emotion of EMOTIONS) scores[emotion] /= total;
+  return scores;
+}
+
+/**
+ * The most likely emotion other than neutral, or neutral when none reaches `minProbability`
+ */
+export function dominantEmotion(probabilities: EmotionProbabilities, minProbability = DEFAULT_MIN_PROBABILITY): EmotionType {
+  const best = EMOTIONS.filter(emotion => emotion !== 'neutral')
+    .reduce((a, b) => probabilities[b] > probabilities[a] ? b : a);
+  return probabilities[best] >= minProbability ? best : 'neutral';
+}
@@ -0,0 +1,39 @@
+/**
+ * Settings Bindings
+ * Pushes user preferences into the chat backend and the speech services now and whenever they change
+ */
+
+import { PROVIDER_DEFAULTS, setProviderConfig } from './llm';
+import { settingsService } from './settingsService';
+import { sttService } from './sttService';
+import { ttsService, VoicePreset } from './ttsService';
+import { EmotionType } from '@/store/appStore';
+
+/**
+ * Start applying settings to the services; returns a function that stops it
+ */
+export function bindServicesToSettings(): () => void {
+  const unsubscribers = [
+    settingsService.watch(s => s.ai, ({ provider, baseUrl, model, apiKey, contextWindow }) => setProviderConfig({
+      type: provider,
+      baseUrl: baseUrl || PROVIDER_DEFAULTS[provider].baseUrl,
+      model: model || PROVIDER_DEFAULTS[provider].model,
+      apiKey: apiKey || undefined,
+      contextWindow,
+    })),
+    settingsService.watch(s => s.speech.language, language => sttService.setLanguage(language)),
+    settingsService.watch(s => s.speech.silenceTimeout, silenceTimeout => sttService.setTimeouts({ silenceTimeout })),
+    settingsService.watch(s => s.speech.maxDuration, maxDuration => sttService.setTimeouts({ maxDuration })),
+    settingsService.watch(({ voice }) => ({ rate: voice.rate, pitch: voice.pitch, volume: voice.volume }),
+      scale => ttsService.setOutputScale(scale)),
+    settingsService.watch(({ voice }) => ({ type: voice.engine, url: voice.engineUrl, speaker: voice.speaker || undefined }),
+      config => ttsService.setEngineConfig(config)),
+    settingsService.watch(s => s.voice.voices, voices => ttsService.setPreferredVoices(voices)),
+    settingsService.watch(s => s.voice.emotions, emotions => ttsService.setEmotionOverrides(emotions as Partial<Record<EmotionType, VoicePreset>>)),
+    // Muting cuts off whatever is being said
+    settingsService.watch(s => s.voice.enabled, enabled => {
+      if (!enabled && ttsService.isSpeaking) ttsService.stop();
+    }),
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
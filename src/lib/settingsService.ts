@@ -0,0 +1,160 @@
+/**
+ * Settings Service
+ * Typed user preferences with defaults, versioned migrations and localStorage persistence
+ */
+
+import { z } from 'zod';
+import { voicePresetSchema } from './characters/cardFormat';
+import { providerConfigFromEnv } from './llm';
+import { ttsConfigFromEnv } from './tts';
+
+const STORAGE_KEY = 'miku-companion:settings';
+const SETTINGS_VERSION = 1;
+
+// Each field falls back to its default on its own, so one bad value never resets the rest
+const speechSchema = z.object({
+  // BCP 47 language the microphone listens for
+  language: z.string().min(2).catch('en-US'),
+  // Silence after speech that ends listening, in ms
+  silenceTimeout: z.number().int().min(500).max(10000).catch(2000),
+  // Longest single recording, in ms
+  maxDuration: z.number().int().min(5000).max(120000).catch(30000),
+});
+
+const ttsDefaults = ttsConfigFromEnv();
+
+const voiceSchema = z.object({
+  enabled: z.boolean().catch(true),
+  // Speech backend: the browser's voices or a local HTTP synthesizer
+  engine: z.enum(['webspeech', 'http']).catch(ttsDefaults.type),
+  engineUrl: z.string().catch(ttsDefaults.url),
+  // Voice or speaker id understood by the HTTP synthesizer
+  speaker: z.string().catch(ttsDefaults.speaker ?? ''),
+  // Multipliers on top of the character's per-emotion delivery
+  rate: z.number().min(0.5).max(2).catch(1),
+  pitch: z.number().min(0.5).max(2).catch(1),
+  volume: z.number().min(0).max(1).catch(1),
+  // Chosen speechSynthesis voice name per primary language, e.g. { ja: 'Kyoko' }
+  voices: z.record(z.string(), z.string()).catch({}),
+  // Per-emotion delivery that replaces the character's own preset
+  emotions: z.record(z.string(), voicePresetSchema).catch({}),
+});
+
+const aiDefaults = providerConfigFromEnv();
+
+const aiSchema = z.object({
+  // Chat backend; an empty URL or model uses the backend's default
+  provider: z.enum(['local', 'openai', 'ollama', 'llamacpp']).catch(aiDefaults.type),
+  baseUrl: z.string().catch(aiDefaults.baseUrl),
+  model: z.string().catch(aiDefaults.model),
+  // Sent as a bearer token; kept in this browser only
+  apiKey: z.string().catch(''),
+  // The model's context size in tokens; older turns are summarized to fit
+  contextWindow: z.number().int().min(512).max(1048576).catch(aiDefaults.contextWindow),
+});
+
+export const settingsSchema = z.object({
+  ai: aiSchema.catch(aiSchema.parse({})),
+  speech: speechSchema.catch(speechSchema.parse({})),
+  voice: voiceSchema.catch(voiceSchema.parse({})),
+  debugMode: z.boolean().catch(false),
+});
+
+export type Settings = z.output<typeof settingsSchema>;
+
+export type SettingsPatch = { [K in keyof Settings]?: Settings[K] extends object ? Partial<Settings[K]> : Settings[K] };
+
+interface StoredSettings {
+  version: number;
+  settings: unknown;
+}
+
+/**
+ * Upgrades from each older version to the next; add one whenever a setting is renamed or reshaped
+ */
+const MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const DEFAULT_SETTINGS: Settings = settingsSchema.parse({});
+
+const parseSettings = (raw: unknown): Settings => settingsSchema.parse(raw ?? {});
+
+/**
+ * Bring stored settings of any older version up to the current shape
+ */
+export function migrateSettings(stored: StoredSettings): Settings {
+  let settings = (typeof stored.settings === 'object' && stored.settings !== null ? stored.settings : {}) as Record<string, unknown>;
+  for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+    settings = MIGRATIONS[version]?.(settings) ?? settings;
+  }
+  return parseSettings(settings);
+}
+
+function readStored(): Settings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as StoredSettings;
+    return migrateSettings({ version: Number(stored.version) || 0, settings: stored.settings });
+  } catch (error) {
+    console.warn('[Settings] Stored settings unreadable, using defaults:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export class SettingsService {
+  private settings: Settings = readStored();
+  private listeners = new Set<(settings: Settings, previous: Settings) => void>();
+
+  /**
+   * Current settings; identity changes on every update
+   */
+  get(): Settings {
+    return this.settings;
+  }
+
+  subscribe(listener: (settings: Settings, previous: Settings) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Run `onChange` now and whenever the selected value changes
+   * Values are compared by content, since every update parses the settings into new objects
+   */
+  watch<T>(select: (settings: Settings) => T, onChange: (value: T) => void): () => void {
+    onChange(select(this.settings));
+    return this.subscribe((settings, previous) => {
+      const value = select(settings);
+      if (JSON.stringify(value) !== JSON.stringify(select(previous))) onChange(value);
+    });
+  }
+
+  /**
+   * Merge a partial update (sections merge one level deep); invalid values fall back to defaults
+   */
+  update(patch: SettingsPatch): void {
+    const merged: Record<string, unknown> = { ...this.settings };
+    for (const [key, value] of Object.entries(patch)) {
+      const current = merged[key];
+      merged[key] = typeof current === 'object' && current !== null ? { ...current, ...(value as object) } : value;
+    }
+    this.commit(parseSettings(merged));
+  }
+
+  reset(): void {
+    this.commit(DEFAULT_SETTINGS);
+  }
+
+  private commit(settings: Settings): void {
+    const previous = this.settings;
+    this.settings = settings;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings } satisfies StoredSettings));
+    } catch (error) {
+      console.warn('[Settings] Failed to persist settings:', error);
+    }
+    this.listeners.forEach(listener => listener(settings, previous));
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -232,6 +232,13 @@ export class STTService {
     }
   }
 
+  /**
+   * Update timeouts; they apply from the next timer started
+   */
+  setTimeouts(timeouts: Partial<Pick<STTConfig, 'silenceTimeout' | 'maxDuration'>>): void {
+    this.config = { ...this.config, ...timeouts };
+  }
+
   private startSilenceTimer(): void {
     this.clearSilenceTimer();
     this.silenceTimer = setTimeout(() => {
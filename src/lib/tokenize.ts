@@ -0,0 +1,61 @@
+/**
+ * Text tokenization for offline search and matching
+ * Latin text splits into stemmed words; CJK text into overlapping character bigrams
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by',
+  'from', 'up', 'about', 'into', 'over', 'after', 'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'can', 'could', 'should', 'shall', 'may',
+  'might', 'must', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it',
+  'its', 'they', 'them', 'their', 'this', 'that', 'these', 'those', 'what', 'which', 'who', 'whom',
+  'there', 'here', 'when', 'where', 'why', 'how', 'all', 'any', 'some', 'no', 'not', 'just', 'very',
+  'too', 'also', 'than', 'then', 'now', 'really', 'im', 'dont', 'oh', 'ooh', 'hmm', 'ehehe',
+  'yay', 'wow', 'okay', 'ok', 'yeah', 'yes', 'like', 'get', 'got', 'tell', 'said', 'say',
+]);
+
+const KANJI = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]+/g;
+
+/**
+ * Crude suffix stripping so "exams", "exam" and "examing" meet
+ */
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(?:ies)$/, 'y')
+    .replace(/(?:ing|ed|es|s)$/, '')
+    .replace(/(.)\1$/, '$1');
+}
+
+/**
+ * Lowercased word tokens with contractions folded ("don't" -> "dont")
+ */
+export function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(CJK_RUN, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Index terms: stemmed content words plus CJK bigrams and single kanji
+ */
+export function tokenize(text: string): string[] {
+  const terms = words(text)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+  for (const run of text.match(CJK_RUN) ?? []) {
+    for (let i = 0; i < run.length - 1; i++) terms.push(run.slice(i, i + 2));
+    // Kanji carry meaning on their own ("猫" in "猫と" and "猫が")
+    for (const char of run) {
+      if (KANJI.test(char)) terms.push(char);
+    }
+    if (run.length === 1 && !KANJI.test(run)) terms.push(run);
+  }
+
+  return terms;
+}
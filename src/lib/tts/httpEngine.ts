@@ -0,0 +1,113 @@
+/**
+ * HTTP neural TTS engine
+ * POSTs each sentence to a local synthesizer and plays the returned WAV/OGG audio
+ */
+
+import { SpeechEvents, SpeechRequest, TTSEngine, TTSEngineConfig, TTSEngineType } from './types';
+
+const requestKey = (request: SpeechRequest) =>
+  [request.text, request.lang, request.emotion, request.rate, request.pitch].join('\u0000');
+
+export class HttpTTSEngine implements TTSEngine {
+  readonly type: TTSEngineType = 'http';
+  private controller = new AbortController();
+  // Audio synthesized ahead of time, by request
+  private pending = new Map<string, Promise<Blob | null>>();
+  private audio: HTMLAudioElement | null = null;
+  private finishCurrent: (() => void) | null = null;
+
+  constructor(private config: TTSEngineConfig) {}
+
+  get isSupported(): boolean {
+    return typeof fetch !== 'undefined' && typeof Audio !== 'undefined' && this.config.url.length > 0;
+  }
+
+  /**
+   * The element playing right now, for anything that wants to listen in
+   */
+  get currentAudio(): HTMLAudioElement | null {
+    return this.audio;
+  }
+
+  private async synthesize(request: SpeechRequest, signal: AbortSignal): Promise<Blob | null> {
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: request.text,
+          lang: request.lang,
+          emotion: request.emotion,
+          speaker: this.config.speaker || undefined,
+          speed: request.rate,
+          pitch: request.pitch,
+        }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      const audio = await response.blob();
+      if (audio.type && !audio.type.startsWith('audio/')) throw new Error(`expected audio, got ${audio.type}`);
+      return audio;
+    } catch (error) {
+      if (!signal.aborted) console.warn('[TTS] Synthesis request failed:', error);
+      return null;
+    }
+  }
+
+  prefetch(request: SpeechRequest): void {
+    const key = requestKey(request);
+    if (!this.pending.has(key)) this.pending.set(key, this.synthesize(request, this.controller.signal));
+  }
+
+  async speak(request: SpeechRequest, events: SpeechEvents): Promise<void> {
+    const { signal } = this.controller;
+    const key = requestKey(request);
+    const pending = this.pending.get(key) ?? this.synthesize(request, signal);
+    this.pending.delete(key);
+
+    const audio = await pending;
+    if (!audio || signal.aborted) return;
+    await this.play(audio, request.volume, events);
+  }
+
+  private play(blob: Blob, volume: number, events: SpeechEvents): Promise<void> {
+    return new Promise((resolve) => {
+      const url = URL.createObjectURL(blob);
+      const audio = new Audio(url);
+      audio.volume = volume;
+      this.audio = audio;
+
+      let started = false;
+      const finish = () => {
+        if (this.finishCurrent !== finish) return;
+        this.finishCurrent = null;
+        if (this.audio === audio) this.audio = null;
+        URL.revokeObjectURL(url);
+        resolve();
+      };
+      this.finishCurrent = finish;
+      audio.onplaying = () => {
+        if (started) return;
+        started = true;
+        events.onStart(audio);
+      };
+      audio.onended = finish;
+      audio.onerror = () => {
+        console.warn('[TTS] Could not play synthesized audio:', audio.error?.message);
+        finish();
+      };
+      audio.play().catch((error) => {
+        console.warn('[TTS] Playback was blocked:', error);
+        finish();
+      });
+    });
+  }
+
+  cancel(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.pending.clear();
+    this.audio?.pause();
+    this.finishCurrent?.();
+  }
+}
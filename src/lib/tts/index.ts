@@ -0,0 +1,46 @@
+/**
+ * TTS Engine Registry
+ * Default engine configuration and a factory for the configured backend
+ */
+
+import { TTSEngine, TTSEngineConfig, TTSEngineType } from './types';
+import { WebSpeechEngine } from './webSpeechEngine';
+import { HttpTTSEngine } from './httpEngine';
+
+export type { SpeechEvents, SpeechRequest, TTSEngine, TTSEngineConfig, TTSEngineType } from './types';
+export { WebSpeechEngine, primaryLanguage } from './webSpeechEngine';
+export { HttpTTSEngine } from './httpEngine';
+
+export const TTS_ENGINE_DEFAULTS: Record<TTSEngineType, { label: string; url: string }> = {
+  webspeech: { label: 'Browser voices', url: '' },
+  http: { label: 'Local neural TTS (HTTP)', url: 'http://localhost:5002/tts' },
+};
+
+export const isTTSEngineType = (value: unknown): value is TTSEngineType =>
+  typeof value === 'string' && value in TTS_ENGINE_DEFAULTS;
+
+/**
+ * Engine from the build environment, used until the user picks one in the settings
+ */
+export function ttsConfigFromEnv(): TTSEngineConfig {
+  const env = import.meta.env;
+  const type = isTTSEngineType(env.VITE_TTS_ENGINE) ? env.VITE_TTS_ENGINE : 'webspeech';
+  return {
+    type,
+    url: env.VITE_TTS_URL || TTS_ENGINE_DEFAULTS.http.url,
+    speaker: env.VITE_TTS_SPEAKER || undefined,
+  };
+}
+
+/**
+ * Build an engine for the given config; Web Speech reuses the shared instance and its voice list
+ */
+export function createTTSEngine(config: TTSEngineConfig, webSpeech: WebSpeechEngine): TTSEngine {
+  switch (config.type) {
+    case 'http':
+      return new HttpTTSEngine(config);
+    case 'webspeech':
+    default:
+      return webSpeech;
+  }
+}
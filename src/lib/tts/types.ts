@@ -0,0 +1,54 @@
+/**
+ * TTS Engine Types
+ * Shared contracts for every speech backend the TTS service can drive
+ */
+
+import { EmotionType } from '@/store/appStore';
+
+export type TTSEngineType = 'webspeech' | 'http';
+
+export interface TTSEngineConfig {
+  type: TTSEngineType;
+  // Synthesis endpoint for the HTTP engine
+  url: string;
+  // Server-side voice or speaker id for the HTTP engine
+  speaker?: string;
+}
+
+/**
+ * One sentence to speak, with delivery already resolved and clamped by the TTS service
+ */
+export interface SpeechRequest {
+  text: string;
+  // BCP 47 language of the text
+  lang: string;
+  emotion: EmotionType;
+  rate: number;
+  pitch: number;
+  volume: number;
+  // Voice names to try in order before the engine's own pick
+  voiceNames: string[];
+}
+
+export interface SpeechEvents {
+  // `audio` is the element playing the speech, for engines that produce real audio
+  onStart: (audio?: HTMLAudioElement) => void;
+  onBoundary: (charIndex: number) => void;
+}
+
+export interface TTSEngine {
+  readonly type: TTSEngineType;
+  readonly isSupported: boolean;
+  /**
+   * Speak one request; resolves once it finished, failed or was cancelled, and never rejects
+   */
+  speak(request: SpeechRequest, events: SpeechEvents): Promise<void>;
+  /**
+   * Start preparing a request that will be spoken soon
+   */
+  prefetch?(request: SpeechRequest): void;
+  /**
+   * Cut off the current request and drop anything prepared
+   */
+  cancel(): void;
+}
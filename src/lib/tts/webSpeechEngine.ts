@@ -0,0 +1,114 @@
+/**
+ * Web Speech engine
+ * Speaks through the browser's speechSynthesis and its installed voices
+ */
+
+import { SpeechEvents, SpeechRequest, TTSEngine, TTSEngineType } from './types';
+
+/**
+ * Primary subtag of a voice or utterance language: 'en-US' and 'en_GB' are both 'en'
+ */
+export const primaryLanguage = (lang: string): string => lang.split(/[-_]/)[0].toLowerCase();
+
+export class WebSpeechEngine implements TTSEngine {
+  readonly type: TTSEngineType = 'webspeech';
+  private synth: SpeechSynthesis | null = null;
+  private voices: SpeechSynthesisVoice[] = [];
+  private voiceListeners = new Set<() => void>();
+  private finishCurrent: (() => void) | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+      this.synth = window.speechSynthesis;
+      this.loadVoices();
+      if (this.synth.onvoiceschanged !== undefined) {
+        this.synth.onvoiceschanged = () => this.loadVoices();
+      }
+    }
+  }
+
+  get isSupported(): boolean { return this.synth !== null; }
+
+  private loadVoices(): void {
+    if (!this.synth) return;
+    // Browsers fill the list asynchronously, so keep the last non-empty one
+    const voices = this.synth.getVoices();
+    if (voices.length === 0) return;
+    this.voices = voices;
+    this.voiceListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Installed voices; identity changes only when the browser reports new ones
+   */
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.voices;
+  }
+
+  subscribeVoices(listener: () => void): () => void {
+    this.voiceListeners.add(listener);
+    return () => this.voiceListeners.delete(listener);
+  }
+
+  /**
+   * First installed voice of the language among `names`, else the best installed one
+   */
+  resolveVoice(lang: string, names: string[] = []): SpeechSynthesisVoice | null {
+    const language = primaryLanguage(lang);
+    const candidates = this.voices.filter(v => primaryLanguage(v.lang) === language);
+    for (const name of names) {
+      const voice = candidates.find(v => v.name === name);
+      if (voice) return voice;
+    }
+    return this.automaticVoice(candidates) ?? this.voices.find(v => v.default) ?? null;
+  }
+
+  /**
+   * Best guess among voices of one language when nobody picked one
+   */
+  private automaticVoice(candidates: SpeechSynthesisVoice[]): SpeechSynthesisVoice | undefined {
+    const name = (v: SpeechSynthesisVoice) => v.name.toLowerCase();
+    const priorities = [
+      (v: SpeechSynthesisVoice) => name(v).includes('female') && name(v).includes('google'),
+      (v: SpeechSynthesisVoice) => name(v).includes('female'),
+      (v: SpeechSynthesisVoice) => v.localService,
+      () => true,
+    ];
+    for (const priority of priorities) {
+      const voice = candidates.find(priority);
+      if (voice) return voice;
+    }
+    return undefined;
+  }
+
+  speak(request: SpeechRequest, events: SpeechEvents): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.synth) { resolve(); return; }
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      utterance.lang = request.lang;
+      const voice = this.resolveVoice(request.lang, request.voiceNames);
+      if (voice) utterance.voice = voice;
+      utterance.rate = request.rate;
+      utterance.pitch = request.pitch;
+      utterance.volume = request.volume;
+
+      const finish = () => {
+        if (this.finishCurrent !== finish) return;
+        this.finishCurrent = null;
+        resolve();
+      };
+      this.finishCurrent = finish;
+      utterance.onstart = () => events.onStart();
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      utterance.onboundary = (event) => events.onBoundary(event.charIndex);
+      this.synth.speak(utterance);
+    });
+  }
+
+  cancel(): void {
+    this.synth?.cancel();
+    // Some browsers never fire onend or onerror for a cancelled utterance
+    this.finishCurrent?.();
+  }
+}
@@ -1,17 +1,27 @@
 /**
  * Text-to-Speech Service with Emotion Modulation and Multi-language support
+ * Owns the sentence queue and delivery; the configured engine does the actual speaking
  */
 
 import { EmotionType } from '@/store/appStore';
-import { cleanTextForTTS } from './aiService';
+import { createTTSEngine, primaryLanguage, SpeechRequest, TTSEngine, TTSEngineConfig, ttsConfigFromEnv, WebSpeechEngine } from './tts';
+import { parsePerformance, ParsedPerformance, PerformanceCue, stripPerformance, TimedCue } from './performanceTags';
 
-interface TTSConfig {
+export interface VoicePreset {
   rate: number;
   pitch: number;
   volume: number;
 }
 
-const EMOTION_CONFIGS: Record<EmotionType, TTSConfig> = {
+export interface VoiceProfile {
+  // Exact speechSynthesis voice name; the best available voice is used when missing
+  voiceName?: string;
+  // Language for text without Japanese characters, e.g. 'en-GB'
+  lang?: string;
+  emotions: Record<EmotionType, VoicePreset>;
+}
+
+export const DEFAULT_EMOTION_PRESETS: Record<EmotionType, VoicePreset> = {
   neutral: { rate: 1.05, pitch: 1.15, volume: 1.0 },
   happy: { rate: 1.15, pitch: 1.35, volume: 1.0 },
   excited: { rate: 1.35, pitch: 1.55, volume: 1.0 },
@@ -23,63 +33,189 @@ const EMOTION_CONFIGS: Record<EmotionType, TTSConfig> = {
   calm: { rate: 0.95, pitch: 1.05, volume: 0.95 },
 };
 
+// Spoken by the settings preview, one per mood
+export const PREVIEW_SENTENCES: Record<EmotionType, string> = {
+  neutral: "Hi there. This is how I usually sound.",
+  happy: "Yay, I'm so glad you're here!",
+  excited: "No way, that's amazing! Tell me everything!",
+  curious: "Hmm, I wonder what happens if we try that?",
+  shy: "Um... thank you. That's really sweet of you.",
+  sad: "Oh... I'm sorry. That sounds really hard.",
+  funny: "Ha! Okay, that one actually got me.",
+  annoyed: "Seriously? We've been over this already.",
+  calm: "Take a deep breath. Everything is going to be fine.",
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export { primaryLanguage } from './tts';
+
+/**
+ * What just started playing, for lip-sync
+ */
+export interface SpeechStart {
+  text: string;
+  lang: string;
+  // Final speaking rate, after emotion and user multipliers
+  rate: number;
+  // Present when the engine plays real audio that can be analysed
+  audio?: HTMLAudioElement;
+}
+
+const EMOJI = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]|[\u{2300}-\u{23FF}]|[\u{2B50}]/gu;
+
+/**
+ * Clean text for TTS (remove performance tags and emojis)
+ */
+export function cleanTextForTTS(text: string): string {
+  return stripPerformance(text).replace(EMOJI, '').trim();
+}
+
+/**
+ * A stretch of speech between emotion changes and pauses, with the gestures that fall inside it
+ */
+interface QueuedSpeech {
+  // Nothing to say when the stretch is only cues or a pause
+  request: SpeechRequest | null;
+  // Silence before it, in milliseconds
+  pauseMs: number;
+  // Offsets are into the request text
+  cues: TimedCue[];
+}
+
 export class TTSService {
-  private synth: SpeechSynthesis | null = null;
-  private selectedVoice: SpeechSynthesisVoice | null = null;
-  private queue: { text: string; emotion: EmotionType; lang?: string }[] = [];
+  // Always present: it lists the browser's voices even while another engine speaks
+  private webSpeech = new WebSpeechEngine();
+  private engine: TTSEngine = this.webSpeech;
+  private engineConfig: TTSEngineConfig = ttsConfigFromEnv();
+  private profile: VoiceProfile = { emotions: DEFAULT_EMOTION_PRESETS };
+  // The user's chosen voice name per primary language, from settings
+  private preferredVoices: Record<string, string> = {};
+  // The user's per-emotion delivery, replacing the character's preset
+  private emotionOverrides: Partial<Record<EmotionType, VoicePreset>> = {};
+  // User preference applied on top of every preset
+  private scale: VoicePreset = { rate: 1, pitch: 1, volume: 1 };
+  private queue: QueuedSpeech[] = [];
   private isProcessing = false;
-  private currentUtterance: SpeechSynthesisUtterance | null = null;
+  private pause: { timer: ReturnType<typeof setTimeout>; resolve: () => void } | null = null;
+  // Bumped by stop() so a cancelled queue run never picks up newer items
+  private generation = 0;
   
-  private onStartCallback: (() => void) | null = null;
+  private onStartCallback: ((speech: SpeechStart) => void) | null = null;
   private onEndCallback: (() => void) | null = null;
   private onBoundaryCallback: ((charIndex: number) => void) | null = null;
+  private onCueCallback: ((cue: PerformanceCue) => void) | null = null;
 
   constructor() {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-      this.synth = window.speechSynthesis;
-      this.loadVoices();
-      if (this.synth.onvoiceschanged !== undefined) {
-        this.synth.onvoiceschanged = () => this.loadVoices();
-      }
-    }
+    this.engine = createTTSEngine(this.engineConfig, this.webSpeech);
   }
 
-  private loadVoices(): void {
-    if (!this.synth) return;
-    const voices = this.synth.getVoices();
-    if (voices.length === 0) return;
-
-    // We try to find the best voice based on the environment
-    // For Miku, we prioritize Japanese female voices if available, or high-quality English female voices
-    const priorities = [
-      (v: SpeechSynthesisVoice) => v.lang.includes('ja') && (v.name.toLowerCase().includes('female') || v.name.toLowerCase().includes('miku')),
-      (v: SpeechSynthesisVoice) => v.lang.includes('ja'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en') && v.name.toLowerCase().includes('female') && v.name.toLowerCase().includes('google'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en') && v.name.toLowerCase().includes('female'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en'),
-      () => true,
-    ];
-
-    for (const priority of priorities) {
-      const voice = voices.find(priority);
-      if (voice) {
-        this.selectedVoice = voice;
-        break;
-      }
-    }
+  /**
+   * Switch speech backend; the current queue is dropped when it actually changes
+   */
+  setEngineConfig(config: TTSEngineConfig): void {
+    const current = this.engineConfig;
+    if (config.type === current.type && config.url === current.url && config.speaker === current.speaker) return;
+    this.stop();
+    this.engineConfig = config;
+    this.engine = createTTSEngine(config, this.webSpeech);
+  }
+
+  get engineType(): TTSEngineConfig['type'] {
+    return this.engine.type;
+  }
+
+  /**
+   * Installed browser voices; identity changes only when the browser reports new ones
+   */
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.webSpeech.getVoices();
+  }
+
+  subscribeVoices(listener: () => void): () => void {
+    return this.webSpeech.subscribeVoices(listener);
+  }
+
+  /**
+   * Primary languages replies are spoken in: Japanese plus the character's language
+   */
+  get spokenLanguages(): string[] {
+    return [...new Set([primaryLanguage(this.profile.lang ?? 'en-US'), 'ja'])];
+  }
+
+  /**
+   * Browser voice used for a language: the user's choice, then the character's, then the best installed one
+   */
+  resolveVoice(lang: string): SpeechSynthesisVoice | null {
+    return this.webSpeech.resolveVoice(lang, this.voiceNamesFor(lang));
   }
 
-  get isSupported(): boolean { return this.synth !== null; }
-  get isSpeaking(): boolean { return this.synth?.speaking ?? false; }
+  private voiceNamesFor(lang: string): string[] {
+    const names = [this.preferredVoices[primaryLanguage(lang)], this.profile.voiceName];
+    return names.filter((name): name is string => Boolean(name));
+  }
+
+  /**
+   * Voice names the user picked, keyed by primary language ('en', 'ja')
+   */
+  setPreferredVoices(voices: Record<string, string>): void {
+    this.preferredVoices = voices;
+  }
+
+  /**
+   * The user's per-emotion delivery; emotions left out use the character's preset
+   */
+  setEmotionOverrides(overrides: Partial<Record<EmotionType, VoicePreset>>): void {
+    this.emotionOverrides = overrides;
+  }
+
+  /**
+   * Delivery for an emotion before the user's multipliers
+   */
+  getEmotionPreset(emotion: EmotionType): VoicePreset {
+    return this.emotionOverrides[emotion] ?? this.profile.emotions[emotion] ?? DEFAULT_EMOTION_PRESETS[emotion];
+  }
+
+  /**
+   * Interrupt and speak the emotion's sample sentence; `preset` tries out unsaved values
+   */
+  preview(emotion: EmotionType, preset?: VoicePreset): void {
+    this.stop();
+    this.queue.push({ request: this.buildRequest(PREVIEW_SENTENCES[emotion], emotion, preset), pauseMs: 0, cues: [] });
+    this.processQueue();
+  }
+
+  /**
+   * Voice and per-emotion delivery of the active character
+   */
+  setVoiceProfile(profile: VoiceProfile): void {
+    this.profile = profile;
+  }
+
+  /**
+   * Multipliers for rate, pitch and volume, from the user's settings
+   */
+  setOutputScale(scale: VoicePreset): void {
+    this.scale = scale;
+  }
+
+  get isSupported(): boolean { return this.engine.isSupported; }
+  // True from the moment something is queued until the queue has been spoken
+  get isSpeaking(): boolean { return this.isProcessing; }
+  // More speech is waiting after the current one, so another onEnd will follow
+  get hasQueued(): boolean { return this.queue.some(item => item.request !== null); }
 
   setCallbacks(callbacks: {
-    onStart?: () => void;
+    onStart?: (speech: SpeechStart) => void;
     onEnd?: () => void;
     onBoundary?: (charIndex: number) => void;
+    // Emotion changes and gestures from performance tags, as the speech reaches them
+    onCue?: (cue: PerformanceCue) => void;
   }): void {
     this.onStartCallback = callbacks.onStart ?? null;
     this.onEndCallback = callbacks.onEnd ?? null;
     this.onBoundaryCallback = callbacks.onBoundary ?? null;
+    this.onCueCallback = callbacks.onCue ?? null;
   }
 
   private detectLanguage(text: string): string {
@@ -87,15 +223,67 @@ export class TTSService {
     if (/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/.test(text)) {
       return 'ja-JP';
     }
-    return 'en-US';
+    return this.profile.lang ?? 'en-US';
+  }
+
+  private buildRequest(text: string, emotion: EmotionType, preset = this.getEmotionPreset(emotion)): SpeechRequest {
+    const lang = this.detectLanguage(text);
+    return {
+      text,
+      lang,
+      emotion,
+      // Clamped to the ranges the Web Speech API accepts
+      rate: clamp(preset.rate * this.scale.rate, 0.1, 10),
+      pitch: clamp(preset.pitch * this.scale.pitch, 0, 2),
+      volume: clamp(preset.volume * this.scale.volume, 0, 1),
+      voiceNames: this.voiceNamesFor(lang),
+    };
   }
 
-  enqueue(text: string, emotion: EmotionType = 'neutral'): void {
-    const cleanedText = cleanTextForTTS(text);
-    if (!cleanedText) return;
-    const lang = this.detectLanguage(cleanedText);
-    this.queue.push({ text: cleanedText, emotion, lang });
+  /**
+   * Split tagged text where the emotion changes or a pause falls
+   */
+  private segment(parsed: ParsedPerformance, emotion: EmotionType): QueuedSpeech[] {
+    const items: QueuedSpeech[] = [];
+    let current = { start: 0, emotion, pauseMs: 0, cues: [] as TimedCue[] };
+    const close = (end: number) => {
+      const text = parsed.text.slice(current.start, end).replace(EMOJI, '');
+      const leading = text.length - text.trimStart().length;
+      const spoken = text.trim();
+      const cues = current.cues.map(({ offset, cue }) => ({ offset: clamp(offset - current.start - leading, 0, spoken.length), cue }));
+      if (!spoken && cues.length === 0 && current.pauseMs === 0) return;
+      items.push({ request: spoken ? this.buildRequest(spoken, current.emotion) : null, pauseMs: current.pauseMs, cues });
+    };
+
+    for (const timed of parsed.cues) {
+      const { offset, cue } = timed;
+      if (cue.type === 'gesture') {
+        current.cues.push(timed);
+        continue;
+      }
+      close(offset);
+      current = cue.type === 'emotion'
+        ? { start: offset, emotion: cue.emotion, pauseMs: 0, cues: [timed] }
+        : { start: offset, emotion: current.emotion, pauseMs: cue.ms, cues: [] };
+    }
+    close(parsed.text.length);
+    return items;
+  }
+
+  /**
+   * Queue text for speech, acting out any performance tags in it; returns false when nothing
+   * speakable remains after cleaning or the engine cannot speak
+   */
+  enqueue(text: string, emotion: EmotionType = 'neutral'): boolean {
+    if (!this.engine.isSupported) return false;
+    const items = this.segment(parsePerformance(text), emotion);
+    this.queue.push(...items);
+    for (const { request } of items) {
+      // Let a slow engine work on this sentence while the current one plays
+      if (request && this.isProcessing) this.engine.prefetch?.(request);
+    }
     this.processQueue();
+    return items.some(item => item.request !== null);
   }
 
   speakNow(text: string, emotion: EmotionType = 'neutral'): void {
@@ -104,60 +292,70 @@ export class TTSService {
   }
 
   private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0 || !this.synth) return;
+    if (this.isProcessing || this.queue.length === 0 || !this.engine.isSupported) return;
     this.isProcessing = true;
+    const generation = this.generation;
+    const engine = this.engine;
     while (this.queue.length > 0) {
       const item = this.queue.shift();
       if (!item) break;
-      await this.speakText(item.text, item.emotion, item.lang);
+      if (item.pauseMs > 0) {
+        await this.wait(item.pauseMs);
+        if (generation !== this.generation) return;
+      }
+
+      // Cues fire once the speech reaches their offset
+      const cues = [...item.cues];
+      const reach = (charIndex: number) => {
+        while (cues.length > 0 && cues[0].offset <= charIndex) this.onCueCallback?.(cues.shift()!.cue);
+      };
+      const { request } = item;
+      if (request) {
+        await engine.speak(request, {
+          onStart: (audio) => {
+            reach(0);
+            this.onStartCallback?.({ text: request.text, lang: request.lang, rate: request.rate, audio });
+            // Audio engines report no word boundaries; follow the playback position instead
+            audio?.addEventListener('timeupdate', () => {
+              if (audio.duration > 0) reach(request.text.length * (audio.currentTime / audio.duration));
+            });
+          },
+          onBoundary: (charIndex) => {
+            reach(charIndex);
+            this.onBoundaryCallback?.(charIndex);
+          },
+        });
+        // stop() already reported the end and may have started a new run
+        if (generation !== this.generation) return;
+      }
+      reach(Infinity);
+      if (request) this.onEndCallback?.();
     }
     this.isProcessing = false;
   }
 
-  private speakText(text: string, emotion: EmotionType, lang?: string): Promise<void> {
+  /**
+   * Hold the queue for a tagged pause; stop() cuts it short
+   */
+  private wait(ms: number): Promise<void> {
     return new Promise((resolve) => {
-      if (!this.synth) { resolve(); return; }
-      const utterance = new SpeechSynthesisUtterance(text);
-      this.currentUtterance = utterance;
-      
-      if (lang) utterance.lang = lang;
-
-      // Try to find a voice that matches the language of the text
-      if (this.synth) {
-          const voices = this.synth.getVoices();
-          const matchingVoice = voices.find(v => v.lang.startsWith(lang?.split('-')[0] || 'en') && v.name.toLowerCase().includes('female'));
-          if (matchingVoice) {
-              utterance.voice = matchingVoice;
-          } else if (this.selectedVoice) {
-              utterance.voice = this.selectedVoice;
-          }
-      }
-
-      const config = EMOTION_CONFIGS[emotion];
-      utterance.rate = config.rate;
-      utterance.pitch = config.pitch;
-      utterance.volume = config.volume;
-
-      utterance.onstart = () => this.onStartCallback?.();
-      utterance.onend = () => {
-        this.currentUtterance = null;
-        this.onEndCallback?.();
+      const timer = setTimeout(() => {
+        this.pause = null;
         resolve();
-      };
-      utterance.onerror = () => {
-        this.currentUtterance = null;
-        this.onEndCallback?.();
-        resolve();
-      };
-      utterance.onboundary = (event) => this.onBoundaryCallback?.(event.charIndex);
-      this.synth.speak(utterance);
+      }, ms);
+      this.pause = { timer, resolve };
     });
   }
 
   stop(): void {
+    this.generation++;
     this.queue = [];
-    this.currentUtterance = null;
-    this.synth?.cancel();
+    if (this.pause) {
+      clearTimeout(this.pause.timer);
+      this.pause.resolve();
+      this.pause = null;
+    }
+    this.engine.cancel();
     this.isProcessing = false;
     this.onEndCallback?.();
   }
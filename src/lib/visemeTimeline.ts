@@ -0,0 +1,251 @@
+/**
+ * Viseme Timeline
+ * Grapheme-to-viseme conversion for English, romaji and kana, timed into a track that lip-sync
+ * plays back when a TTS engine gives no audio to analyse
+ */
+
+import { CLOSED_MOUTH, Viseme, VisemeWeights } from './audioAnalyzer';
+
+type Vowel = Exclude<Viseme, 'closed'>;
+
+export interface VisemeSegment {
+  viseme: Viseme;
+  // Seconds from the start of the sentence
+  start: number;
+  duration: number;
+}
+
+export interface TimedWord {
+  // Offset of the word in the spoken text, as reported by boundary events
+  charIndex: number;
+  start: number;
+  duration: number;
+}
+
+export interface VisemeTrack {
+  words: TimedWord[];
+  segments: VisemeSegment[];
+  duration: number;
+}
+
+// Relative length of one sound within its word
+interface Sound {
+  viseme: Viseme;
+  length: number;
+}
+
+// Seconds per syllable (English) or mora (Japanese) at rate 1
+const SYLLABLE_SECONDS = 0.2;
+const MORA_SECONDS = 0.13;
+const COMMA_PAUSE = 0.2;
+const STOP_PAUSE = 0.35;
+
+const WORD_PATTERN = /[A-Za-z']+|[0-9]+|[\u3040-\u30ff\uff66-\uff9f][\u3041\u3043\u3045\u3047\u3049\u3083\u3085\u3087\u308e\u30a1\u30a3\u30a5\u30a7\u30a9\u30e3\u30e5\u30e7\u30ee\u30fc]*|[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+
+const KANA_VOWELS: Record<Vowel, string> = {
+  a: 'あかさたなはまやらわがざだばぱぁゃゎ',
+  i: 'いきしちにひみりぎじぢびぴぃ',
+  u: 'うくすつぬふむゆるぐずづぶぷぅゅゔ',
+  e: 'えけせてねへめれげぜでべぺぇ',
+  o: 'おこそとのほもよろをごぞどぼぽぉょ',
+};
+// m, b and p start with the lips pressed together
+const KANA_LABIALS = 'まみむめもばびぶべぼぱぴぷぺぽ';
+
+const VOWEL_OF_KANA = new Map<string, Vowel>(
+  (Object.entries(KANA_VOWELS) as [Vowel, string][]).flatMap(([vowel, kana]) => [...kana].map(k => [k, vowel] as [string, Vowel]))
+);
+
+// Longest spellings first. Vowel spellings are syllable nuclei; consonants with no entry show no
+// distinct mouth shape
+const ENGLISH_VOWELS: [string, Vowel[]][] = [
+  ['eigh', ['e']], ['igh', ['a', 'i']], ['tion', ['u', 'a']],
+  ['ee', ['i']], ['ea', ['i']], ['ie', ['i']], ['oo', ['u']], ['ou', ['u']], ['ew', ['u']],
+  ['ow', ['o']], ['oa', ['o']], ['au', ['o']], ['aw', ['o']], ['oi', ['o', 'i']], ['oy', ['o', 'i']],
+  ['ai', ['e']], ['ay', ['e']], ['ey', ['e']],
+  ['a', ['a']], ['e', ['e']], ['i', ['i']], ['o', ['o']], ['u', ['u']], ['y', ['i']],
+];
+const ENGLISH_CONSONANTS: [string, Viseme][] = [
+  ['sh', 'u'], ['ch', 'u'], ['wh', 'u'], ['qu', 'u'], ['ph', 'i'],
+  ['m', 'closed'], ['b', 'closed'], ['p', 'closed'],
+  ['f', 'i'], ['v', 'i'], ['w', 'u'], ['j', 'u'],
+];
+const SILENT_CLUSTERS = ['th', 'ck', 'ng'];
+
+const ROMAJI_WORD = /^(?:(?:ky|gy|sh|ch|ts|ny|hy|by|py|my|ry|[kgsztdnhbpmyrwfj])?[aiueo]|n)+$/;
+const ROMAJI_SYLLABLE = /(ky|gy|sh|ch|ts|ny|hy|by|py|my|ry|[kgsztdnhbpmyrwfj])?([aiueo])|n/g;
+
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
+
+/**
+ * Sounds of one kana mora group, e.g. きゃ or ばー
+ */
+function kanaSounds(group: string): Sound[] {
+  const chars = [...group].map(toHiragana);
+  const head = chars[0];
+  if (head === 'っ') return [{ viseme: 'closed', length: 1 }];
+  if (head === 'ん') return [{ viseme: 'closed', length: 1 }];
+
+  // A trailing small kana replaces the vowel: き + ゃ reads "kya"
+  const glide = chars.slice(1).filter(c => c !== 'ー').pop();
+  const vowel = VOWEL_OF_KANA.get(glide ?? head) ?? VOWEL_OF_KANA.get(head) ?? 'a';
+  const sounds: Sound[] = KANA_LABIALS.includes(head) ? [{ viseme: 'closed', length: 0.3 }] : [];
+  sounds.push({ viseme: vowel, length: 1 });
+  // Each long-vowel mark holds the vowel for another mora
+  for (const char of chars) {
+    if (char === 'ー') sounds.push({ viseme: vowel, length: 1 });
+  }
+  return sounds;
+}
+
+/**
+ * Sounds of a romanized Japanese word, one syllable per mora
+ */
+function romajiSounds(word: string): Sound[] {
+  const sounds: Sound[] = [];
+  for (const [syllable, consonant, vowel] of word.matchAll(ROMAJI_SYLLABLE)) {
+    if (syllable === 'n') {
+      sounds.push({ viseme: 'closed', length: 1 });
+      continue;
+    }
+    if (consonant && /^[mbp]/.test(consonant)) sounds.push({ viseme: 'closed', length: 0.3 });
+    else if (consonant && /^[fw]/.test(consonant)) sounds.push({ viseme: 'u', length: 0.3 });
+    sounds.push({ viseme: vowel as Vowel, length: 1 });
+  }
+  return sounds;
+}
+
+/**
+ * Sounds of an English word from its spelling, with its syllable count; rough, but enough to
+ * shape the mouth
+ */
+function englishSounds(word: string): { sounds: Sound[]; syllables: number } {
+  // A final e after a consonant is usually silent ("make", "time")
+  const spelling = /[aeiouy].*[^aeiouy]e$/.test(word) ? word.slice(0, -1) : word;
+  const sounds: Sound[] = [];
+  let syllables = 0;
+  // Sounds without their own shape still take time; they lengthen the next visible one
+  let hidden = 0;
+  const push = (viseme: Viseme, length: number) => {
+    sounds.push({ viseme, length: length + hidden });
+    hidden = 0;
+  };
+
+  for (let i = 0; i < spelling.length;) {
+    const rest = spelling.slice(i);
+    // A leading y glides into the vowel after it ("yes"), so it is not a syllable of its own
+    const vowel = /^y[aeiou]/.test(rest) ? undefined : ENGLISH_VOWELS.find(([letters]) => rest.startsWith(letters));
+    if (vowel) {
+      vowel[1].forEach(viseme => push(viseme, 2 / vowel[1].length));
+      syllables++;
+      i += vowel[0].length;
+      continue;
+    }
+    const cluster = SILENT_CLUSTERS.find(letters => rest.startsWith(letters));
+    const consonant = ENGLISH_CONSONANTS.find(([letters]) => rest.startsWith(letters));
+    const letters = cluster ?? consonant?.[0] ?? rest[0];
+    // Doubled letters are one sound
+    const doubled = letters.length === 1 && spelling[i - 1] === letters;
+    i += letters.length;
+    if (doubled) continue;
+    if (!cluster && consonant) push(consonant[1], 1);
+    else if (/^y/.test(rest)) push('i', 1);
+    else hidden += 0.5;
+  }
+  if (hidden > 0 && sounds.length > 0) sounds[sounds.length - 1].length += hidden;
+  return { sounds, syllables };
+}
+
+/**
+ * Mouth shapes of one word, with its length in syllables or morae
+ */
+export function wordToVisemes(word: string): { sounds: Sound[]; beats: number; mora: boolean } {
+  if (/^[0-9]+$/.test(word)) {
+    // Digits are read out; one open syllable each is close enough
+    return { sounds: [...word].map(() => ({ viseme: 'e' as Viseme, length: 1 })), beats: word.length, mora: false };
+  }
+  if (/^[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]$/.test(word)) {
+    // The reading of a kanji is unknown; most read as two morae
+    const code = word.charCodeAt(0);
+    const vowels: Vowel[] = ['a', 'i', 'u', 'e', 'o'];
+    return {
+      sounds: [{ viseme: vowels[code % 5], length: 1 }, { viseme: vowels[(code >> 3) % 5], length: 1 }],
+      beats: 2,
+      mora: true,
+    };
+  }
+  if (/^[\u3040-\u30ff\uff66-\uff9f]/.test(word)) {
+    const sounds = kanaSounds(word);
+    return { sounds, beats: sounds.filter(s => s.length >= 1).length, mora: true };
+  }
+
+  const lower = word.toLowerCase().replace(/'/g, '');
+  // Words that spell out Japanese syllables are romaji, unless they end like English "make" or "one"
+  if (ROMAJI_WORD.test(lower) && !/[aeiou][^aeiou]e$/.test(lower)) {
+    const sounds = romajiSounds(lower);
+    return { sounds, beats: sounds.filter(s => s.length >= 1).length, mora: true };
+  }
+  const { sounds, syllables } = englishSounds(lower);
+  return { sounds, beats: Math.max(1, syllables), mora: false };
+}
+
+/**
+ * Timed viseme track for a sentence spoken at `rate`
+ */
+export function buildVisemeTrack(text: string, rate: number): VisemeTrack {
+  const speed = Math.max(rate, 0.1);
+  const words: TimedWord[] = [];
+  const segments: VisemeSegment[] = [];
+  let time = 0;
+  let lastEnd = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const charIndex = match.index ?? 0;
+    const gap = text.slice(lastEnd, charIndex);
+    if (/[.!?。！？…]/.test(gap)) time += STOP_PAUSE / speed;
+    else if (/[,;:、]/.test(gap)) time += COMMA_PAUSE / speed;
+
+    const { sounds, beats, mora } = wordToVisemes(match[0]);
+    const duration = (beats * (mora ? MORA_SECONDS : SYLLABLE_SECONDS)) / speed;
+    const totalLength = sounds.reduce((sum, sound) => sum + sound.length, 0) || 1;
+    let offset = time;
+    for (const sound of sounds) {
+      const length = (sound.length / totalLength) * duration;
+      segments.push({ viseme: sound.viseme, start: offset, duration: length });
+      offset += length;
+    }
+
+    words.push({ charIndex, start: time, duration });
+    time += duration;
+    lastEnd = charIndex + match[0].length;
+  }
+  return { words, segments, duration: time };
+}
+
+/**
+ * Mouth weights of a track at `time` seconds into the sentence
+ */
+export function visemeWeightsAt(track: VisemeTrack, time: number): VisemeWeights {
+  const segment = track.segments.find(s => time >= s.start && time < s.start + s.duration);
+  if (!segment || segment.viseme === 'closed') return { ...CLOSED_MOUTH };
+
+  // Open into the vowel and close out of it, so neighbouring vowels don't snap
+  const phase = (time - segment.start) / segment.duration;
+  const open = Math.pow(Math.sin(Math.PI * Math.min(Math.max(phase, 0.08), 0.92)), 0.6);
+  return { ...CLOSED_MOUTH, [segment.viseme]: open, closed: 1 - open };
+}
+
+/**
+ * Start time of the word at or before `charIndex`, for re-syncing to boundary events
+ */
+export function wordStartAt(track: VisemeTrack, charIndex: number): number | null {
+  let start: number | null = null;
+  for (const word of track.words) {
+    if (word.charIndex > charIndex) break;
+    start = word.start;
+  }
+  return start;
+}
@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Loader2, Play, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { EmotionType } from '@/store/appStore';
+import { avatarColorsSchema, AvatarColors, CharacterCard, characterService, voicePresetSchema } from '@/lib/characters';
+import { DEFAULT_EMOTION_PRESETS, ttsService, VoicePreset } from '@/lib/ttsService';
+import { useCharacters } from '@/hooks/useCharacters';
+import MikuCharacter3D from '@/components/MikuCharacter3D';
+import CharacterTestChat from '@/components/CharacterTestChat';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { bindServicesToSettings } from '@/lib/settingsBindings';
+import { cn } from '@/lib/utils';
+
+const EMOTIONS = Object.keys(DEFAULT_EMOTION_PRESETS) as EmotionType[];
+
+const VOICE_SLIDERS: { key: keyof VoicePreset; label: string; min: number; max: number }[] = [
+  { key: 'rate', label: 'Rate', min: 0.5, max: 2 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1 },
+];
+
+const COLOR_FIELDS: { key: keyof AvatarColors; label: string }[] = [
+  { key: 'hair', label: 'Hair' },
+  { key: 'eyes', label: 'Eyes' },
+  { key: 'skin', label: 'Skin' },
+  { key: 'mouth', label: 'Mouth' },
+  { key: 'outfit', label: 'Outfit' },
+  { key: 'outfitAccent', label: 'Outfit accent' },
+];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Give the character a name'),
+  description: z.string(),
+  personality: z.string(),
+  scenario: z.string(),
+  systemPrompt: z.string(),
+  postHistoryInstructions: z.string(),
+  exampleDialogue: z.string(),
+  greeting: z.string(),
+  // Wrapped in objects because useFieldArray cannot track plain strings
+  alternateGreetings: z.array(z.object({ text: z.string() })),
+  tags: z.string(),
+  emotions: z.record(z.string(), voicePresetSchema),
+  colors: avatarColorsSchema,
+});
+
+type CharacterFormValues = z.infer<typeof formSchema>;
+
+const toFormValues = (card: CharacterCard): CharacterFormValues => ({
+  name: card.name,
+  description: card.description,
+  personality: card.personality,
+  scenario: card.scenario,
+  systemPrompt: card.systemPrompt,
+  postHistoryInstructions: card.postHistoryInstructions,
+  exampleDialogue: card.exampleDialogue,
+  greeting: card.greeting,
+  alternateGreetings: card.alternateGreetings.map(text => ({ text })),
+  tags: card.tags.join(', '),
+  emotions: card.voice.emotions,
+  colors: card.appearance.colors,
+});
+
+const applyFormValues = (card: CharacterCard, values: CharacterFormValues): CharacterCard => ({
+  ...card,
+  name: values.name.trim(),
+  description: values.description,
+  personality: values.personality,
+  scenario: values.scenario,
+  systemPrompt: values.systemPrompt,
+  postHistoryInstructions: values.postHistoryInstructions,
+  exampleDialogue: values.exampleDialogue,
+  greeting: values.greeting,
+  alternateGreetings: values.alternateGreetings.map(greeting => greeting.text).filter(text => text.trim()),
+  tags: values.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  voice: { ...card.voice, emotions: { ...card.voice.emotions, ...values.emotions } },
+  // Non-strict zod inference marks the validated colors optional
+  appearance: { ...card.appearance, colors: values.colors as AvatarColors },
+});
+
+const TEXT_FIELDS: { name: 'description' | 'personality' | 'scenario' | 'systemPrompt' | 'exampleDialogue' | 'postHistoryInstructions'; label: string; description: string; rows: number }[] = [
+  { name: 'description', label: 'Description', description: 'Who the character is. Use {{char}} and {{user}} for the names.', rows: 4 },
+  { name: 'personality', label: 'Personality', description: 'Traits and temperament.', rows: 5 },
+  { name: 'scenario', label: 'Scenario', description: 'Where and how the conversation takes place.', rows: 2 },
+  { name: 'systemPrompt', label: 'Instructions', description: 'Speech patterns and rules, added after the persona.', rows: 8 },
+  { name: 'exampleDialogue', label: 'Example dialogue', description: 'Sample exchanges, each starting with a <START> line.', rows: 6 },
+  { name: 'postHistoryInstructions', label: 'Final reminder', description: 'Added at the very end of the instructions.', rows: 2 },
+];
+
+const inputClass = 'bg-white/5 border-white/10 text-white';
+
+const CharacterEditorForm: React.FC<{ card: CharacterCard }> = ({ card }) => {
+  const navigate = useNavigate();
+  const [previewEmotion, setPreviewEmotion] = useState<EmotionType>('neutral');
+  const form = useForm<CharacterFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(card),
+  });
+  const greetings = useFieldArray({ control: form.control, name: 'alternateGreetings' });
+
+  // The preview only rebuilds its materials when a color actually changes
+  const { hair, skin, eyes, mouth, outfit, outfitAccent } = form.watch('colors');
+  const appearance = useMemo(
+    () => ({ ...card.appearance, colors: { hair, skin, eyes, mouth, outfit, outfitAccent } }),
+    [card.appearance, hair, skin, eyes, mouth, outfit, outfitAccent]
+  );
+
+  const getDraft = useCallback(() => applyFormValues(card, form.getValues()), [card, form]);
+
+  const save = form.handleSubmit(async (values) => {
+    const saved = await characterService.save(applyFormValues(card, values));
+    form.reset(toFormValues(saved));
+    toast.success(`Saved ${saved.name}`);
+  });
+
+  return (
+    <div className="h-screen bg-[#050505] text-white flex flex-col overflow-hidden">
+      <header className="px-6 py-4 border-b border-white/5 flex items-center gap-4 shrink-0">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/')} title="Back to chat">
+          <ArrowLeft size={18} />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <span className="text-[9px] font-black tracking-[0.3em] text-miku-cyan uppercase">Character editor</span>
+          <h1 className="font-display text-lg font-black tracking-tight truncate">{form.watch('name') || 'Unnamed'}</h1>
+        </div>
+        <Button
+          onClick={save}
+          disabled={form.formState.isSubmitting || !form.formState.isDirty}
+          className="bg-miku-cyan hover:bg-miku-cyan/80 text-black font-bold rounded-2xl"
+        >
+          {form.formState.isSubmitting ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Save size={16} className="mr-2" />}
+          Save
+        </Button>
+      </header>
+
+      <main className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-12 gap-6 p-4 lg:p-6 overflow-y-auto lg:overflow-hidden">
+        <Form {...form}>
+          <form onSubmit={save} className="lg:col-span-7 min-h-0 lg:overflow-y-auto custom-scrollbar pr-1">
+            <Tabs defaultValue="persona">
+              <TabsList className="bg-white/5">
+                <TabsTrigger value="persona">Persona</TabsTrigger>
+                <TabsTrigger value="greetings">Greetings</TabsTrigger>
+                <TabsTrigger value="voice">Voice</TabsTrigger>
+                <TabsTrigger value="look">Look</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="persona" className="space-y-5 mt-4">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl><Input {...field} className={inputClass} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                {TEXT_FIELDS.map(({ name, label, description, rows }) => (
+                  <FormField key={name} control={form.control} name={name} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl><Textarea {...field} rows={rows} className={inputClass} /></FormControl>
+                      <FormDescription>{description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                ))}
+                <FormField control={form.control} name="tags" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl><Input {...field} placeholder="companion, music" className={inputClass} /></FormControl>
+                    <FormDescription>Comma separated.</FormDescription>
+                  </FormItem>
+                )} />
+              </TabsContent>
+
+              <TabsContent value="greetings" className="space-y-5 mt-4">
+                <FormField control={form.control} name="greeting" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First message</FormLabel>
+                    <FormControl><Textarea {...field} rows={3} className={inputClass} /></FormControl>
+                    <FormDescription>Opens every new chat.</FormDescription>
+                  </FormItem>
+                )} />
+                <div className="space-y-3">
+                  <FormLabel>Alternate greetings</FormLabel>
+                  {greetings.fields.map((greeting, index) => (
+                    <FormField key={greeting.id} control={form.control} name={`alternateGreetings.${index}.text`} render={({ field }) => (
+                      <FormItem className="flex items-start gap-2 space-y-0">
+                        <FormControl><Textarea {...field} rows={2} className={inputClass} /></FormControl>
+                        <Button type="button" variant="ghost" size="icon" className="shrink-0 text-red-400" onClick={() => greetings.remove(index)}>
+                          <X size={14} />
+                        </Button>
+                      </FormItem>
+                    )} />
+                  ))}
+                  <Button type="button" variant="outline" size="sm" className="border-white/10 bg-white/5" onClick={() => greetings.append({ text: '' })}>
+                    <Plus size={14} className="mr-2" />
+                    Add greeting
+                  </Button>
+                  <FormDescription>One is picked at random with the first message.</FormDescription>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="voice" className="space-y-5 mt-4">
+                <div className="flex flex-wrap gap-2">
+                  {EMOTIONS.map(emotion => (
+                    <Button
+                      key={emotion}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewEmotion(emotion)}
+                      className={cn(
+                        'capitalize border-white/10 bg-white/5',
+                        previewEmotion === emotion && 'border-miku-cyan text-miku-cyan bg-miku-cyan/10'
+                      )}
+                    >
+                      {emotion}
+                    </Button>
+                  ))}
+                </div>
+                {VOICE_SLIDERS.map(({ key, label, min, max }) => (
+                  <FormField key={`${previewEmotion}.${key}`} control={form.control} name={`emotions.${previewEmotion}.${key}`} render={({ field }) => (
+                    <FormItem>
+                      <div className="flex justify-between">
+                        <FormLabel>{label}</FormLabel>
+                        <span className="text-xs text-white/50">{field.value.toFixed(2)}</span>
+                      </div>
+                      <FormControl>
+                        <Slider min={min} max={max} step={0.05} value={[field.value]} onValueChange={([value]) => field.onChange(value)} />
+                      </FormControl>
+                    </FormItem>
+                  )} />
+                ))}
+                <div className="flex items-center gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="border-white/10 bg-white/5 shrink-0"
+                    disabled={!ttsService.isSupported}
+                    onClick={() => ttsService.preview(previewEmotion, form.getValues(`emotions.${previewEmotion}`) as VoicePreset)}
+                  >
+                    <Play size={14} className="mr-2" />
+                    Hear it
+                  </Button>
+                  <FormDescription>How the character sounds when {previewEmotion}. The preview shows the same mood.</FormDescription>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="look" className="mt-4">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {COLOR_FIELDS.map(({ key, label }) => (
+                    <FormField key={key} control={form.control} name={`colors.${key}`} render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input type="color" {...field} className="h-10 p-1 bg-white/5 border-white/10 cursor-pointer" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                  ))}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </form>
+        </Form>
+
+        <section className="lg:col-span-5 min-h-0 flex flex-col gap-4">
+          <div className="h-[320px] lg:h-[45%] shrink-0 glass-card rounded-[2rem] border border-white/5 overflow-hidden">
+            <MikuCharacter3D className="h-full w-full min-h-0" appearance={appearance} emotion={previewEmotion} />
+          </div>
+          <div className="h-[420px] lg:h-auto lg:flex-1 min-h-0 glass-card rounded-[2rem] border border-white/10 overflow-hidden">
+            <CharacterTestChat getCharacter={getDraft} onEmotion={setPreviewEmotion} />
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+const CharacterEditor: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const characters = useCharacters();
+  const card = characters.find(c => c.id === id);
+  // Saved cards only appear once IndexedDB has been read
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    characterService.load().then(() => setIsLoaded(true));
+  }, []);
+
+  // The test chat talks to the backend chosen in the settings
+  useEffect(() => bindServicesToSettings(), []);
+
+  if (!card && !isLoaded) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#050505]">
+        <Loader2 className="w-10 h-10 animate-spin text-miku-cyan" />
+      </div>
+    );
+  }
+
+  if (!card) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-[#050505] text-white">
+        <p className="text-white/60">No character with this id.</p>
+        <Link to="/" className="text-miku-cyan underline">Back to chat</Link>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <CharacterEditorForm key={card.id} card={card} />
+    </ErrorBoundary>
+  );
+};
+
+export default CharacterEditor;
@@ -1,114 +1,183 @@
-import React, { Suspense } from 'react';
+import React, { Suspense, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Loader2, Activity, ShieldCheck } from 'lucide-react';
 import { Header, Footer } from '@/components/Layout';
 import ParticlesBackground from '@/components/ParticlesBackground';
 import MikuCharacter3D from '@/components/MikuCharacter3D';
 import ChatInterface from '@/components/ChatInterface';
+import ConversationSidebar from '@/components/ConversationSidebar';
+import MemoryPanel from '@/components/MemoryPanel';
+import MoodPanel from '@/components/MoodPanel';
+import CharacterPanel from '@/components/CharacterPanel';
+import SettingsPanel from '@/components/SettingsPanel';
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useAppStore, selectSignal, selectEmotion } from '@/store/appStore';
+import { memoryService } from '@/lib/memoryService';
+import { moodService } from '@/lib/moodService';
+import { recallService } from '@/lib/recallService';
+import { ttsService } from '@/lib/ttsService';
+import { bindServicesToSettings } from '@/lib/settingsBindings';
+import { useActiveCharacter } from '@/hooks/useCharacters';
 import { cn } from '@/lib/utils';
 
+// How often an idle face is brought in line with the mood, and how long a reply's emotion holds first
+const MOOD_SYNC_MS = 5000;
+const MOOD_HOLD_MS = 20000;
+
 const Index: React.FC = () => {
   const signal = useAppStore(selectSignal);
   const emotion = useAppStore(selectEmotion);
+  const character = useActiveCharacter();
+  const initConversations = useAppStore(state => state.initConversations);
+  const activeTitle = useAppStore(state =>
+    state.conversations.find(c => c.id === state.activeConversationId)?.title
+  );
+
+  // Restore the most recent conversation, long-term memories and the recall index from IndexedDB
+  useEffect(() => {
+    initConversations();
+    memoryService.load();
+    recallService.load();
+  }, [initConversations]);
+
+  // Keep the speech services in step with the user's settings
+  useEffect(() => bindServicesToSettings(), []);
+
+  // Speak with the active character's voice
+  useEffect(() => {
+    ttsService.setVoiceProfile(character.voice);
+  }, [character.voice]);
+
+  // Each character keeps their own mood, resting at their persona's baseline
+  useEffect(() => {
+    moodService.load(character.id, character.mood);
+  }, [character.id, character.mood]);
+
+  // Between turns the face follows the mood as it drifts back toward the baseline
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const { signal, currentEmotion, setEmotion } = useAppStore.getState();
+      if (signal !== 'IDLE' || moodService.sinceNudge < MOOD_HOLD_MS) return;
+      const mood = moodService.emotion;
+      if (mood !== currentEmotion) setEmotion(mood);
+    }, MOOD_SYNC_MS);
+    return () => clearInterval(timer);
+  }, []);
 
   return (
     <ErrorBoundary>
-      <div className="h-screen w-screen relative bg-[#050505] text-white selection:bg-miku-cyan/30 flex flex-col overflow-hidden">
-        <ParticlesBackground />
+      <SidebarProvider defaultOpen={false}>
+        <ConversationSidebar />
+        <div className="h-screen flex-1 min-w-0 relative bg-[#050505] text-white selection:bg-miku-cyan/30 flex flex-col overflow-hidden">
+          <ParticlesBackground />
         
-        {/* Animated Background Orbs */}
-        <div className="fixed inset-0 pointer-events-none opacity-20 z-0">
-            <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-miku-cyan/30 blur-[120px] rounded-full animate-pulse" />
-            <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-miku-pink/20 blur-[120px] rounded-full animate-pulse [animation-delay:2s]" />
-        </div>
+          {/* Animated Background Orbs */}
+          <div className="fixed inset-0 pointer-events-none opacity-20 z-0">
+              <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-miku-cyan/30 blur-[120px] rounded-full animate-pulse" />
+              <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] bg-miku-pink/20 blur-[120px] rounded-full animate-pulse [animation-delay:2s]" />
+          </div>
 
-        <Header />
+          <Header />
 
-        <main className="flex-1 relative z-10 p-4 lg:p-8 overflow-hidden">
-          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-full items-stretch">
+          <main className="flex-1 relative z-10 p-4 lg:p-8 overflow-hidden">
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-full items-stretch">
             
-            {/* 3D Character Visualization */}
-            <motion.div
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.8, ease: "easeOut" }}
-              className="lg:col-span-7 h-full"
-            >
-              <div className="h-full glass-card rounded-[2.5rem] border border-white/5 overflow-hidden flex flex-col shadow-2xl relative">
+              {/* 3D Character Visualization */}
+              <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.8, ease: "easeOut" }}
+                className="lg:col-span-7 h-full"
+              >
+                <div className="h-full glass-card rounded-[2.5rem] border border-white/5 overflow-hidden flex flex-col shadow-2xl relative">
                 
-                {/* Header Status Bar */}
-                <div className="p-4 border-b border-white/5 flex items-center justify-between bg-white/5 backdrop-blur-md shrink-0">
-                  <div className="flex items-center gap-4">
-                    <div className="flex flex-col">
-                        <span className="text-[9px] font-black tracking-[0.3em] text-miku-cyan uppercase">Live Neural Link</span>
-                        <div className="flex items-center gap-2">
-                            <Activity size={14} className="text-miku-cyan animate-pulse" />
-                            <h2 className="font-display text-lg font-black tracking-tight">HATSUNE MIKU v2.0</h2>
-                        </div>
+                  {/* Header Status Bar */}
+                  <div className="p-4 border-b border-white/5 flex items-center justify-between bg-white/5 backdrop-blur-md shrink-0">
+                    <div className="flex items-center gap-4">
+                      <div className="flex flex-col">
+                          <span className="text-[9px] font-black tracking-[0.3em] text-miku-cyan uppercase">Live Neural Link</span>
+                          <div className="flex items-center gap-2">
+                              <Activity size={14} className="text-miku-cyan animate-pulse" />
+                              <h2 className="font-display text-lg font-black tracking-tight uppercase">
+                                {character.name}{character.version && ` v${character.version}`}
+                              </h2>
+                          </div>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="flex items-center gap-3 bg-black/40 px-3 py-1.5 rounded-xl border border-white/5">
-                    <div className={cn(
-                        "w-2 h-2 rounded-full",
-                        signal === 'IDLE' ? 'bg-miku-cyan shadow-[0_0_10px_rgba(0,212,212,0.5)]' : 'bg-red-500 animate-ping'
-                    )} />
-                    <span className="text-[10px] font-bold tracking-widest opacity-80 uppercase">{signal}</span>
+                    <div className="flex items-center gap-3 bg-black/40 px-3 py-1.5 rounded-xl border border-white/5">
+                      <div className={cn(
+                          "w-2 h-2 rounded-full",
+                          signal === 'IDLE' ? 'bg-miku-cyan shadow-[0_0_10px_rgba(0,212,212,0.5)]' : 'bg-red-500 animate-ping'
+                      )} />
+                      <span className="text-[10px] font-bold tracking-widest opacity-80 uppercase">{signal}</span>
+                    </div>
                   </div>
-                </div>
                 
-                {/* 3D Rendering Area */}
-                <div className="flex-1 relative min-h-0">
-                  <Suspense fallback={
-                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
-                      <Loader2 className="w-10 h-10 animate-spin text-miku-cyan" />
-                      <p className="text-[10px] font-black tracking-[0.4em] uppercase opacity-40">Initializing Core...</p>
-                    </div>
-                  }>
-                    <MikuCharacter3D className="h-full w-full" />
-                  </Suspense>
+                  {/* 3D Rendering Area */}
+                  <div className="flex-1 relative min-h-0">
+                    <Suspense fallback={
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
+                        <Loader2 className="w-10 h-10 animate-spin text-miku-cyan" />
+                        <p className="text-[10px] font-black tracking-[0.4em] uppercase opacity-40">Initializing Core...</p>
+                      </div>
+                    }>
+                      <MikuCharacter3D className="h-full w-full" />
+                    </Suspense>
                   
-                  {/* Floating Action HUD */}
-                  <div className="absolute top-4 right-4 flex flex-col gap-2">
-                     <div className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors cursor-pointer">
-                        <ShieldCheck size={18} className="text-miku-cyan" />
-                     </div>
+                    {/* Floating Action HUD */}
+                    <div className="absolute top-4 right-4 flex flex-col gap-2">
+                       <div className="glass p-2 rounded-xl border-white/10 hover:bg-white/10 transition-colors cursor-pointer">
+                          <ShieldCheck size={18} className="text-miku-cyan" />
+                       </div>
+                       <CharacterPanel />
+                       <MemoryPanel />
+                       <MoodPanel />
+                       <SettingsPanel />
+                    </div>
                   </div>
-                </div>
 
-                {/* Footer Telemetry */}
-                <div className="p-3 border-t border-white/5 bg-black/20 flex justify-center gap-8 shrink-0">
-                    <div className="flex items-center gap-2">
-                        <div className="w-1 h-1 bg-miku-cyan rounded-full" />
-                        <span className="text-[9px] font-black tracking-widest uppercase opacity-40">Sync: 100%</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-1 h-1 bg-miku-pink rounded-full" />
-                        <span className="text-[9px] font-black tracking-widest uppercase opacity-40">Mood: {emotion}</span>
-                    </div>
+                  {/* Footer Telemetry */}
+                  <div className="p-3 border-t border-white/5 bg-black/20 flex justify-center gap-8 shrink-0">
+                      <div className="flex items-center gap-2">
+                          <div className="w-1 h-1 bg-miku-cyan rounded-full" />
+                          <span className="text-[9px] font-black tracking-widest uppercase opacity-40">Sync: 100%</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                          <div className="w-1 h-1 bg-miku-pink rounded-full" />
+                          <span className="text-[9px] font-black tracking-widest uppercase opacity-40">Mood: {emotion}</span>
+                      </div>
+                  </div>
                 </div>
-              </div>
-            </motion.div>
+              </motion.div>
 
-            {/* Communication Interface */}
-            <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.8, delay: 0.2, ease: "easeOut" }}
-              className="lg:col-span-5 h-full relative"
-            >
-              <div className="h-full glass-card rounded-[2.5rem] border border-white/10 shadow-2xl overflow-hidden">
-                <ChatInterface />
-              </div>
-            </motion.div>
+              {/* Communication Interface */}
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.8, delay: 0.2, ease: "easeOut" }}
+                className="lg:col-span-5 h-full relative"
+              >
+                <div className="h-full glass-card rounded-[2.5rem] border border-white/10 shadow-2xl overflow-hidden flex flex-col">
+                  <div className="px-4 py-2 border-b border-white/5 flex items-center gap-2 bg-white/5 shrink-0">
+                    <SidebarTrigger className="text-miku-cyan hover:bg-miku-cyan/10" />
+                    <span className="text-[10px] font-black tracking-[0.2em] uppercase text-white/40 truncate">
+                      {activeTitle ?? 'New chat'}
+                    </span>
+                  </div>
+                  <div className="flex-1 min-h-0">
+                    <ChatInterface />
+                  </div>
+                </div>
+              </motion.div>
 
-          </div>
-        </main>
+            </div>
+          </main>
 
-        <Footer />
-      </div>
+          <Footer />
+        </div>
+      </SidebarProvider>
     </ErrorBoundary>
   );
 };
@@ -1,5 +1,14 @@
 import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import { characterService, pickGreeting } from '@/lib/characters';
+import { ChatMessage, createMessage, resetLocalDialogue } from '@/lib/conversation';
+import { conversationRepository, Conversation } from '@/lib/conversationRepository';
+import { memoryService } from '@/lib/memoryService';
+import { moodService } from '@/lib/moodService';
+import { animationDirector } from '@/lib/animation';
+import { recallService } from '@/lib/recallService';
+import { classifyEmotion } from '@/lib/sentiment';
+import { settingsService } from '@/lib/settingsService';
 
 export type AppSignal = 'IDLE' | 'LISTENING' | 'THINKING' | 'SPEAKING' | 'ERROR';
 export type EmotionType = 'neutral' | 'happy' | 'excited' | 'curious' | 'shy' | 'sad' | 'funny' | 'annoyed' | 'calm';
@@ -12,20 +21,22 @@ const VALID_TRANSITIONS: Record<AppSignal, AppSignal[]> = {
   ERROR: ['IDLE'],
 };
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  emotion?: EmotionType;
-}
+// Messages kept in memory; older history stays in IndexedDB and is paged in on demand
+const MAX_LOADED_MESSAGES = 200;
+const HISTORY_PAGE_SIZE = 30;
 
 interface AppState {
   signal: AppSignal;
   previousSignal: AppSignal;
   transitionLock: boolean;
   currentEmotion: EmotionType;
-  messages: Message[];
+  // When the emotion was last set, so setting the same one again replays it
+  emotionSetAt: number;
+  messages: ChatMessage[];
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  hasOlderMessages: boolean;
+  isLoadingHistory: boolean;
   isStreaming: boolean;
   streamingContent: string;
   isSpeaking: boolean;
@@ -42,8 +53,14 @@ interface AppState {
   setSignal: (newSignal: AppSignal) => boolean;
   forceSignal: (signal: AppSignal) => void;
   setEmotion: (emotion: EmotionType) => void;
-  addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void;
   clearMessages: () => void;
+  initConversations: () => Promise<void>;
+  newConversation: () => Promise<void>;
+  switchConversation: (id: string) => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
   setStreamingContent: (content: string) => void;
   setIsStreaming: (streaming: boolean) => void;
   setIsSpeaking: (speaking: boolean) => void;
@@ -68,17 +85,23 @@ export const useAppStore = create<AppState>()(
       previousSignal: 'IDLE',
       transitionLock: false,
       currentEmotion: 'neutral',
+      emotionSetAt: 0,
       messages: [],
+      conversations: [],
+      activeConversationId: null,
+      hasOlderMessages: false,
+      isLoadingHistory: false,
       isStreaming: false,
       streamingContent: '',
       isSpeaking: false,
       audioQueue: [],
       currentAudioLevel: 0,
-      voiceEnabled: true,
+      // Preferences are owned by the settings service; the store mirrors them for components
+      voiceEnabled: settingsService.get().voice.enabled,
       micEnabled: false,
       vrmLoaded: false,
       vrmError: null,
-      debugMode: true,
+      debugMode: settingsService.get().debugMode,
       fpsCount: 60,
       lastError: null,
       
@@ -105,20 +128,127 @@ export const useAppStore = create<AppState>()(
         });
       },
       
-      setEmotion: (emotion: EmotionType) => set({ currentEmotion: emotion }),
+      setEmotion: (emotion: EmotionType) => set({ currentEmotion: emotion, emotionSetAt: Date.now() }),
       
       addMessage: (message) => {
-        const newMessage: Message = {
-          ...message,
-          id: crypto.randomUUID(),
-          timestamp: new Date(),
-        };
-        set((state) => ({
-          messages: [...state.messages.slice(-50), newMessage],
-        }));
+        const newMessage = createMessage(message.role, message.content, message.emotion, message.metadata);
+        set((state) => {
+          const messages = [...state.messages, newMessage];
+          const overflow = messages.length > MAX_LOADED_MESSAGES;
+          return {
+            messages: overflow ? messages.slice(-MAX_LOADED_MESSAGES) : messages,
+            hasOlderMessages: state.hasOlderMessages || overflow,
+          };
+        });
+
+        if (newMessage.role === 'user') {
+          memoryService.observe(newMessage.content);
+          moodService.feel(classifyEmotion(newMessage.content), 'user');
+        } else if (newMessage.emotion) {
+          moodService.feel(newMessage.emotion, 'reply');
+        }
+
+        const conversationId = get().activeConversationId;
+        if (!conversationId) return;
+        conversationRepository.appendMessage(conversationId, newMessage)
+          .then((conversation) => {
+            recallService.add(newMessage, conversationId);
+            set((state) => ({
+              conversations: [conversation, ...state.conversations.filter(c => c.id !== conversation.id)],
+            }));
+          })
+          .catch((error) => console.warn('[Store] Failed to persist message:', error));
       },
       
       clearMessages: () => set({ messages: [] }),
+
+      initConversations: async () => {
+        try {
+          const conversations = await conversationRepository.listConversations();
+          set({ conversations });
+          if (conversations.length > 0) {
+            await get().switchConversation(conversations[0].id);
+          } else {
+            await get().newConversation();
+          }
+        } catch (error) {
+          // History is best-effort; chat keeps working in memory
+          console.warn('[Store] Conversation history unavailable:', error);
+        }
+      },
+
+      newConversation: async () => {
+        const conversation = await conversationRepository.createConversation();
+        resetLocalDialogue();
+        set((state) => ({
+          conversations: [conversation, ...state.conversations],
+          activeConversationId: conversation.id,
+          messages: [],
+          hasOlderMessages: false,
+        }));
+
+        // The active character opens every new chat
+        const greeting = pickGreeting(characterService.active, memoryService.userName);
+        if (greeting) {
+          get().addMessage({ role: 'assistant', content: greeting, emotion: 'happy' });
+          animationDirector.cue('wave');
+        }
+      },
+
+      switchConversation: async (id) => {
+        resetLocalDialogue();
+        set({ activeConversationId: id, messages: [], hasOlderMessages: false, isLoadingHistory: true });
+        try {
+          const page = await conversationRepository.loadMessages(id, { limit: HISTORY_PAGE_SIZE });
+          // Ignore the result if the user switched again meanwhile
+          if (get().activeConversationId !== id) return;
+          set({ messages: page.messages, hasOlderMessages: page.hasMore });
+        } finally {
+          if (get().activeConversationId === id) set({ isLoadingHistory: false });
+        }
+      },
+
+      renameConversation: async (id, title) => {
+        const conversation = await conversationRepository.renameConversation(id, title);
+        set((state) => ({
+          conversations: state.conversations.map(c => c.id === id ? conversation : c),
+        }));
+      },
+
+      deleteConversation: async (id) => {
+        await conversationRepository.deleteConversation(id);
+        recallService.removeConversation(id);
+        const remaining = get().conversations.filter(c => c.id !== id);
+        set({ conversations: remaining });
+
+        if (get().activeConversationId !== id) return;
+        if (remaining.length > 0) {
+          await get().switchConversation(remaining[0].id);
+        } else {
+          await get().newConversation();
+        }
+      },
+
+      loadOlderMessages: async () => {
+        const { activeConversationId, messages, hasOlderMessages, isLoadingHistory } = get();
+        if (!activeConversationId || !hasOlderMessages || isLoadingHistory) return;
+
+        set({ isLoadingHistory: true });
+        try {
+          const page = await conversationRepository.loadMessages(activeConversationId, {
+            before: messages[0],
+            limit: HISTORY_PAGE_SIZE,
+          });
+          if (get().activeConversationId !== activeConversationId) return;
+          set((state) => ({
+            messages: [...page.messages, ...state.messages],
+            hasOlderMessages: page.hasMore,
+          }));
+        } finally {
+          set({ isLoadingHistory: false });
+        }
+      },
+
       setStreamingContent: (content) => set({ streamingContent: content }),
       setIsStreaming: (streaming) => set({ isStreaming: streaming }),
       setIsSpeaking: (speaking) => set({ isSpeaking: speaking }),
@@ -140,11 +270,11 @@ export const useAppStore = create<AppState>()(
       },
       
       setCurrentAudioLevel: (level) => set({ currentAudioLevel: level }),
-      setVoiceEnabled: (enabled) => set({ voiceEnabled: enabled }),
+      setVoiceEnabled: (enabled) => settingsService.update({ voice: { enabled } }),
       setMicEnabled: (enabled) => set({ micEnabled: enabled }),
       setVrmLoaded: (loaded) => set({ vrmLoaded: loaded }),
       setVrmError: (error) => set({ vrmError: error }),
-      setDebugMode: (enabled) => set({ debugMode: enabled }),
+      setDebugMode: (enabled) => settingsService.update({ debugMode: enabled }),
       setFpsCount: (fps) => set({ fpsCount: fps }),
       setLastError: (error) => set({ lastError: error }),
       
@@ -163,9 +293,16 @@ export const useAppStore = create<AppState>()(
   )
 );
 
+settingsService.subscribe((settings) => {
+  useAppStore.setState({ voiceEnabled: settings.voice.enabled, debugMode: settings.debugMode });
+});
+
 export const selectSignal = (state: AppState) => state.signal;
 export const selectEmotion = (state: AppState) => state.currentEmotion;
+export const selectEmotionSetAt = (state: AppState) => state.emotionSetAt;
 export const selectMessages = (state: AppState) => state.messages;
+export const selectConversations = (state: AppState) => state.conversations;
+export const selectActiveConversationId = (state: AppState) => state.activeConversationId;
 export const selectIsSpeaking = (state: AppState) => state.isSpeaking;
 export const selectAudioLevel = (state: AppState) => state.currentAudioLevel;
 export const selectVrmLoaded = (state: AppState) => state.vrmLoaded;
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: string;
+  readonly VITE_AI_BASE_URL?: string;
+  readonly VITE_AI_MODEL?: string;
+  readonly VITE_AI_CONTEXT_WINDOW?: string;
+  readonly VITE_DEFAULT_CHARACTER?: string;
+  readonly VITE_TTS_ENGINE?: string;
+  readonly VITE_TTS_URL?: string;
+  readonly VITE_TTS_SPEAKER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}